@@ -0,0 +1,21 @@
+import { defineConfig, globalIgnores } from 'eslint/config';
+import js from '@eslint/js';
+import globals from 'globals';
+import tseslint from 'typescript-eslint';
+
+export default defineConfig([
+  // d3-org-chart.js is a fork of the upstream library and keeps its style
+  globalIgnores(['dist', 'docs', 'public', 'playwright-report', 'test-results', 'src/d3-org-chart.js']),
+  {
+    files: ['**/*.{ts,js}'],
+    extends: [js.configs.recommended, tseslint.configs.recommended],
+    languageOptions: {
+      globals: { ...globals.browser, ...globals.node },
+    },
+    rules: {
+      // Node data comes from YAML and d3 and is untyped by design
+      '@typescript-eslint/no-explicit-any': 'off',
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_', caughtErrors: 'none' }],
+    },
+  },
+]);
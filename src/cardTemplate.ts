@@ -0,0 +1,358 @@
+/**
+ * Card template - Render the front matter `card:` DSL to HTML
+ *
+ * Each element is `tag: content` or `tag: { class, style, content, children }`.
+ * `$field$` is replaced with the node's value (escaped unless the field is
+ * marked `html` in the schema), and `$field|"fallback"$` gives the text to use
+ * when the value is empty. Pipes format values on the way in:
+ * `$start|date:"MMM yyyy"$`, `$salary|currency:USD$`, `$name|initials$`,
+ * `$email|mailto$` and `$headcount|number$`. The chart adds
+ * `_directSubordinates` and `_totalSubordinates` to every node, so those can
+ * be used like fields. A `photo` element shows an image with a coloured
+ * initials avatar behind it, which stays visible when the photo is missing
+ * or fails to load. Elements can be guarded with `if: $field$` or
+ * `unless: $field$`, and `each: $list$` repeats an element for every entry of
+ * an array field, with `$_item$` (the entry) and `$_index$` (its 1-based
+ * position) in scope; fields of object entries are available directly.
+ *
+ * Named templates in `cards:` give nodes different looks. selectCardTemplate
+ * picks the one named by a node's `_card` field, else the first whose `when`
+ * fields and `depth` match the node, else the plain `card:` template.
+ *
+ * The result is not sanitized; callers pass the assembled card through
+ * sanitizeHtml.
+ *
+ * Usage:
+ * ```typescript
+ * const template = selectCardTemplate(doc.cards, doc.card, node, depth);
+ * const html = template ? sanitizeHtml(renderCard(template, node, doc.schema)) : '';
+ * ```
+ */
+
+import { escapeHtml } from './sanitize.js';
+import type { CardConfig, CardElement, CardTemplate, CardTemplates, SchemaDefinition } from './types.js';
+
+/** `$field$`, optionally followed by pipes and a quoted fallback: `$start|date:"MMM yyyy"|"n/a"$` */
+const VARIABLE_PATTERN = /\$(\w+)((?:\|(?:"[^"]*"|'[^']*'|[^|$"'])*)*)\$/g;
+const PIPE_PATTERN = /\|((?:"[^"]*"|'[^']*'|[^|"'])*)/g;
+const SINGLE_VARIABLE_PATTERN = /^\s*\$(\w+)\$\s*$/;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** Output of a pipe that is already markup, e.g. `mailto` */
+class Markup {
+  readonly html: string;
+
+  constructor(html: string) {
+    this.html = html;
+  }
+}
+
+type Formatter = (value: unknown, arg: string | undefined) => unknown;
+
+/** Pipes available in `$field|pipe$`; a pipe that can't handle a value passes it through */
+const FORMATTERS: Record<string, Formatter> = {
+  date: (value, format) => formatDate(value, format ?? 'MMM d, yyyy'),
+  currency: (value, currency) => formatNumber(value, { style: 'currency', currency: (currency || 'USD').toUpperCase() }),
+  number: (value, digits) => formatNumber(value, digits && /^\d+$/.test(digits)
+    ? { minimumFractionDigits: Number(digits), maximumFractionDigits: Number(digits) }
+    : {}),
+  initials: value => initials(String(value)),
+  mailto: value => new Markup(`<a href="mailto:${escapeHtml(value)}">${escapeHtml(value)}</a>`),
+};
+
+/** Render a card template for one node */
+export function renderCard(elements: CardElement[], data: Record<string, any>, schema: SchemaDefinition = {}): string {
+  return elements.map(element => renderCardElement(element, data, schema)).join('');
+}
+
+/**
+ * The template for a node at `depth` (0 is the top of the chart): the
+ * `cards:` entry named by its `_card` field, else the first entry whose rules
+ * all match, else `fallback`. Entries without rules are only used by name.
+ */
+export function selectCardTemplate(
+  cards: CardTemplates | undefined,
+  fallback: CardElement[] | undefined,
+  data: Record<string, any>,
+  depth: number
+): CardElement[] | undefined {
+  if (!cards) return fallback;
+
+  const named = isEmpty(data._card) ? undefined : cards[String(data._card)];
+  if (named) return named.template;
+
+  const matched = Object.keys(cards).find(name => matchesRules(cards[name], data, depth));
+  return matched !== undefined ? cards[matched].template : fallback;
+}
+
+/** Replace the `$field$` variables of a template string */
+export function replaceVariables(template: string, data: Record<string, any>, schema: SchemaDefinition = {}): string {
+  return substitute(template, data, schema, true);
+}
+
+/**
+ * An avatar of `size` pixels: the photo at `src` over a circle with the
+ * initials of `name`, coloured by the name. Images that fail to load are
+ * hidden by the chart (class `yc-avatar-img`), uncovering the initials.
+ */
+export function renderAvatar(src: string | undefined, name: string, size = 48): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  const hue = Math.abs(hash) % 360;
+
+  const image = src
+    ? `<img class="yc-avatar-img" src="${escapeHtml(src)}" alt="" style="position:absolute;top:0;left:0;width:100%;height:100%;object-fit:cover;">`
+    : '';
+  return `<span class="yc-avatar" title="${escapeHtml(name)}" style="position:relative;display:inline-flex;align-items:center;justify-content:center;flex-shrink:0;width:${size}px;height:${size}px;border-radius:50%;overflow:hidden;background:hsl(${hue}, 55%, 45%);color:#ffffff;font-weight:600;font-size:${Math.round(size * 0.38)}px;line-height:1;">${escapeHtml(initials(name) || '?')}${image}</span>`;
+}
+
+/** The node's photo: the first non-empty field of type `photo`, else a `photo` or `picture` field */
+export function photoOf(data: Record<string, any>, schema: SchemaDefinition = {}): string | undefined {
+  const fields = [...Object.keys(schema).filter(key => schema[key].type.toLowerCase() === 'photo'), 'photo', 'picture'];
+  const field = fields.find(key => typeof data[key] === 'string' && data[key].trim() !== '');
+  return field ? data[field].trim() : undefined;
+}
+
+function substitute(template: string, data: Record<string, any>, schema: SchemaDefinition, escape: boolean): string {
+  return template.replace(VARIABLE_PATTERN, (_match, fieldName: string, pipes: string) => {
+    let value: unknown = data[fieldName];
+    let fallback = '';
+    for (const pipe of pipes.match(PIPE_PATTERN) ?? []) {
+      const segment = pipe.slice(1).trim();
+      const quoted = unquote(segment);
+      if (quoted !== null) {
+        fallback = quoted;
+        continue;
+      }
+      const separator = segment.indexOf(':');
+      const name = separator === -1 ? segment : segment.slice(0, separator).trim();
+      const arg = separator === -1 ? undefined : segment.slice(separator + 1).trim();
+      if (!isEmpty(value) && FORMATTERS[name]) {
+        value = FORMATTERS[name](value, arg === undefined ? undefined : unquote(arg) ?? arg);
+      }
+    }
+
+    // Empty values give the fallback, or nothing
+    if (isEmpty(value)) return fallback;
+    if (value instanceof Markup) return value.html;
+    return !escape || isHtmlField(schema, fieldName) ? String(value) : escapeHtml(value);
+  });
+}
+
+/** Initials of a name: the first letters of its first and last words */
+export function initials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(word => word !== '');
+  if (words.length === 0) return '';
+  const letters = words.length === 1 ? [words[0]] : [words[0], words[words.length - 1]];
+  return letters.map(word => word.charAt(0).toUpperCase()).join('');
+}
+
+/** Fields marked `html` in the schema (directly or through an alias) hold markup rather than text */
+export function isHtmlField(schema: SchemaDefinition, fieldName: string): boolean {
+  const field = schema[fieldName];
+  return !!(field?.html || (field?.aliasOf && schema[field.aliasOf]?.html));
+}
+
+function renderCardElement(element: CardElement, data: Record<string, any>, schema: SchemaDefinition): string {
+  const key = Object.keys(element)[0];
+  const config = element[key];
+  // The tag is written into the markup as is, so anything but a plain name becomes a div
+  const tagName = /^[a-z][a-z0-9-]*$/i.test(key) ? key : 'div';
+
+  // `photo: $picture$` is shorthand for `photo: { src: $picture$ }`
+  if (key === 'photo' && typeof config === 'string') {
+    return renderPhotoElement({ src: config }, data, schema);
+  }
+
+  // If config is a string, it's simple content
+  if (typeof config === 'string') {
+    // Replace variables like $name$ with actual data
+    const content = replaceVariables(config, data, schema);
+
+    // Add word-break style to span elements
+    if (tagName === 'span') {
+      return `<${tagName} style="word-break:break-all">${content}</${tagName}>`;
+    }
+
+    return `<${tagName}>${content}</${tagName}>`;
+  }
+
+  if (!config || typeof config !== 'object') return '';
+
+  // Repeat the element for each entry; guards are checked per entry
+  if (config.each !== undefined) {
+    const { each, ...single } = config;
+    return listEntries(each, data)
+      .map((entry, index) => renderCardElement({ [key]: single }, entryScope(data, entry, index), schema))
+      .join('');
+  }
+
+  if (config.if !== undefined && !isConditionMet(config.if, data, schema)) return '';
+  if (config.unless !== undefined && isConditionMet(config.unless, data, schema)) return '';
+
+  if (key === 'photo') {
+    return renderPhotoElement(config, data, schema);
+  }
+
+  // Otherwise, it's a CardConfig object
+  const attrs: string[] = [];
+  let content = '';
+  let children = '';
+
+  if (config.class) {
+    attrs.push(`class="${escapeHtml(config.class)}"`);
+  }
+
+  if (config.style) {
+    // Add word-break to existing style for span elements
+    if (tagName === 'span') {
+      const existingStyle = config.style.trim();
+      const separator = existingStyle.endsWith(';') ? '' : ';';
+      attrs.push(`style="${escapeHtml(existingStyle)}${separator}word-break:break-all"`);
+    } else {
+      attrs.push(`style="${escapeHtml(config.style)}"`);
+    }
+  } else if (tagName === 'span') {
+    // Add word-break style if no style exists
+    attrs.push(`style="word-break:break-all"`);
+  }
+
+  if (config.content) {
+    content = replaceVariables(config.content, data, schema);
+  }
+
+  if (config.children && Array.isArray(config.children)) {
+    children = config.children
+      .map(child => renderCardElement(child, data, schema))
+      .join('');
+  }
+
+  const attrsStr = attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+  return `<${tagName}${attrsStr}>${content}${children}</${tagName}>`;
+}
+
+/**
+ * A `photo` element. `src` defaults to the node's photo field and `name`
+ * (used for the initials) to its `name`; `class` and `style` go on a wrapper.
+ */
+function renderPhotoElement(config: CardConfig, data: Record<string, any>, schema: SchemaDefinition): string {
+  const src = config.src !== undefined ? substitute(config.src, data, schema, false).trim() : photoOf(data, schema);
+  const name = config.name !== undefined ? substitute(config.name, data, schema, false) : String(data.name ?? '');
+  const size = Number(config.size) > 0 ? Number(config.size) : 48;
+  const avatar = renderAvatar(src || undefined, name.trim(), size);
+  if (!config.class && !config.style) return avatar;
+
+  const attrs = [
+    config.class ? `class="${escapeHtml(config.class)}"` : '',
+    config.style ? `style="${escapeHtml(config.style)}"` : '',
+  ].filter(attr => attr);
+  return `<div ${attrs.join(' ')}>${avatar}</div>`;
+}
+
+function matchesRules(card: CardTemplate, data: Record<string, any>, depth: number): boolean {
+  if (card.when === undefined && card.depth === undefined) return false;
+  if (card.depth !== undefined && !matchesDepth(card.depth, depth)) return false;
+  return Object.entries(card.when ?? {}).every(([field, expected]) =>
+    (Array.isArray(expected) ? expected : [expected]).some(option => sameValue(data[field], option))
+  );
+}
+
+/** `2`, `[0, 1]` or `"2+"` (2 and deeper) */
+function matchesDepth(rule: number | number[] | string, depth: number): boolean {
+  if (Array.isArray(rule)) return rule.some(entry => Number(entry) === depth);
+  const atLeast = /^\s*(\d+)\s*\+\s*$/.exec(String(rule));
+  return atLeast ? depth >= Number(atLeast[1]) : Number(rule) === depth;
+}
+
+/** Rule values match case-insensitively; `null` or `""` matches an empty field */
+function sameValue(value: unknown, expected: unknown): boolean {
+  if (isEmpty(expected)) return isEmpty(value);
+  if (isEmpty(value)) return false;
+  return String(value).toLowerCase() === String(expected).toLowerCase();
+}
+
+/**
+ * Whether an `if:`/`unless:` guard holds. A lone `$field$` holds when the
+ * field has a value (not empty, `false`, 0 or an empty list); anything else
+ * holds when it expands to non-blank text.
+ */
+function isConditionMet(condition: unknown, data: Record<string, any>, schema: SchemaDefinition): boolean {
+  if (typeof condition === 'boolean') return condition;
+  const single = SINGLE_VARIABLE_PATTERN.exec(String(condition));
+  if (single) return hasValue(data[single[1]]);
+  return replaceVariables(String(condition), data, schema).trim() !== '';
+}
+
+/** Entries of an `each:` list; a single value is a list of one */
+function listEntries(source: unknown, data: Record<string, any>): unknown[] {
+  const single = SINGLE_VARIABLE_PATTERN.exec(String(source));
+  const value = single ? data[single[1]] : source;
+  if (Array.isArray(value)) return value;
+  return hasValue(value) ? [value] : [];
+}
+
+function entryScope(data: Record<string, any>, entry: unknown, index: number): Record<string, any> {
+  const fields = entry && typeof entry === 'object' && !Array.isArray(entry) ? entry : {};
+  return { ...data, ...fields, _item: entry, _index: index + 1 };
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !isEmpty(value) && value !== false && value !== 0;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function unquote(text: string): string | null {
+  const match = /^(["'])(.*)\1$/.exec(text);
+  return match ? match[2] : null;
+}
+
+function formatNumber(value: unknown, options: Intl.NumberFormatOptions): unknown {
+  const number = typeof value === 'number' ? value : Number(String(value).replace(/[,\s]/g, ''));
+  if (typeof value === 'boolean' || !isFinite(number)) return value;
+  try {
+    return new Intl.NumberFormat(undefined, options).format(number);
+  } catch {
+    // Unknown currency code
+    return value;
+  }
+}
+
+/**
+ * Format a date with `yyyy`, `yy`, `MMMM` (January), `MMM` (Jan), `MM`, `M`,
+ * `dd` and `d`. YAML dates and `YYYY-MM-DD` strings are calendar dates, so
+ * they are read in UTC to keep the day from shifting.
+ */
+function formatDate(value: unknown, format: string): unknown {
+  let date: Date;
+  let utc = true;
+  if (value instanceof Date) {
+    date = value;
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(String(value).trim())) {
+    date = new Date(`${String(value).trim()}T00:00:00Z`);
+  } else {
+    date = new Date(String(value));
+    utc = false;
+  }
+  if (isNaN(date.getTime())) return value;
+
+  const year = utc ? date.getUTCFullYear() : date.getFullYear();
+  const month = utc ? date.getUTCMonth() : date.getMonth();
+  const day = utc ? date.getUTCDate() : date.getDate();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    yyyy: String(year),
+    yy: pad(year % 100),
+    MMMM: MONTH_NAMES[month],
+    MMM: MONTH_NAMES[month].slice(0, 3),
+    MM: pad(month + 1),
+    M: String(month + 1),
+    dd: pad(day),
+    d: String(day),
+  };
+  return format.replace(/yyyy|yy|MMMM|MMM|MM|M|dd|d/g, token => tokens[token]);
+}
@@ -0,0 +1,382 @@
+/**
+ * Chart export - SVG, PNG and multi-page PDF
+ *
+ * Builds a standalone copy of the rendered chart SVG covering the full chart
+ * (not just the visible viewport) with CSS custom properties resolved, so
+ * card templates and the background pattern look the same outside the page.
+ * PNG and PDF output rasterize that copy; PDFs tile large charts across
+ * pages using a small built-in writer (JPEG pages, no extra dependency).
+ * inlineImages embeds photos as data URIs, so exports are self-contained
+ * (and images show up at all once the SVG is rasterized).
+ *
+ * Usage:
+ * ```typescript
+ * const prepared = prepareChartSvg(svgElement);
+ * await inlineImages(prepared);
+ * const png = await renderPng(prepared, { scale: 2, background: 'transparent' });
+ * const pdf = await renderPdf(prepared, { paperSize: 'letter', orientation: 'landscape' });
+ * ```
+ */
+
+export type PaperSize = 'a4' | 'a3' | 'letter' | 'legal' | 'tabloid';
+
+export interface PngExportOptions {
+  /** Output pixels per chart pixel (default: 2) */
+  scale?: number;
+  /** CSS color painted behind the chart, or 'transparent' (default: '#ffffff') */
+  background?: string;
+}
+
+export interface PdfExportOptions {
+  /** Paper size (default: 'a4') */
+  paperSize?: PaperSize;
+  /** Page orientation (default: 'landscape') */
+  orientation?: 'portrait' | 'landscape';
+  /** PDF points per chart pixel; 0.75 prints at on-screen size (default: 0.75) */
+  scale?: number;
+  /** Print "Page N of M" in the footer (default: true) */
+  pageNumbers?: boolean;
+  /** CSS color painted behind the chart (default: '#ffffff') */
+  background?: string;
+}
+
+export interface PreparedSvg {
+  svg: SVGSVGElement;
+  width: number;
+  height: number;
+}
+
+interface PdfPage {
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+  imageWidth: number;
+  imageHeight: number;
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+  label?: string;
+}
+
+// Portrait dimensions in PDF points (1/72 inch)
+const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  a3: [841.89, 1190.55],
+  letter: [612, 792],
+  legal: [612, 1008],
+  tabloid: [792, 1224],
+};
+
+const EXPORT_PADDING = 20;
+const PAGE_MARGIN = 36;
+const PAGE_FOOTER = 18;
+// Browser canvas limits (per side and total area)
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+
+/**
+ * Clone the chart SVG, sized to the full chart bounds and with every
+ * `var(--…)` reference replaced by its computed value.
+ */
+export function prepareChartSvg(source: SVGSVGElement, styleRoot: Element = document.documentElement): PreparedSvg {
+  const chartGroup = source.querySelector<SVGGElement>('g.chart');
+  const bounds = (chartGroup || source).getBBox();
+  const width = Math.max(1, Math.ceil(bounds.width + EXPORT_PADDING * 2));
+  const height = Math.max(1, Math.ceil(bounds.height + EXPORT_PADDING * 2));
+
+  const svg = source.cloneNode(true) as SVGSVGElement;
+  svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  svg.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  // Replace the zoom/pan transform so the whole chart sits inside the viewBox
+  const clonedChart = svg.querySelector('g.chart');
+  if (clonedChart) {
+    clonedChart.setAttribute('transform', `translate(${EXPORT_PADDING - bounds.x},${EXPORT_PADDING - bounds.y})`);
+  }
+
+  resolveCssVariables(svg, getComputedStyle(styleRoot));
+
+  return { svg, width, height };
+}
+
+/**
+ * Replace the images of a prepared SVG with data URIs. Images that can't be
+ * fetched (offline, or served without CORS headers) and images hidden after
+ * failing to load are removed, leaving the initials avatar behind them.
+ */
+export async function inlineImages(prepared: PreparedSvg): Promise<void> {
+  const fetches = new Map<string, Promise<string | null>>();
+
+  await Promise.all(Array.from(prepared.svg.querySelectorAll('img, image')).map(async image => {
+    const attribute = image.tagName.toLowerCase() === 'image'
+      ? (image.hasAttribute('href') ? 'href' : 'xlink:href')
+      : 'src';
+    const src = image.getAttribute(attribute);
+    if (!src || src.startsWith('data:')) return;
+    if ((image as HTMLElement).style?.display === 'none') {
+      image.remove();
+      return;
+    }
+
+    if (!fetches.has(src)) fetches.set(src, fetchDataUrl(src));
+    const dataUrl = await fetches.get(src);
+    if (dataUrl) {
+      image.setAttribute(attribute, dataUrl);
+    } else {
+      image.remove();
+    }
+  }));
+}
+
+/** Serialize a prepared SVG as a standalone SVG document */
+export function serializeSvg(prepared: PreparedSvg): string {
+  return '<?xml version="1.0" standalone="no"?>\r\n' + new XMLSerializer().serializeToString(prepared.svg);
+}
+
+/** Rasterize a prepared SVG to a PNG data URL */
+export async function renderPng(prepared: PreparedSvg, options: PngExportOptions = {}): Promise<string> {
+  const { background = '#ffffff' } = options;
+  const scale = clampScale(options.scale ?? 2, prepared.width, prepared.height);
+  const image = await loadSvgImage(prepared);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(prepared.width * scale);
+  canvas.height = Math.round(prepared.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  if (background !== 'transparent') {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Render a prepared SVG to a PDF, tiling it across as many pages as needed
+ * at the requested scale. Tiles are laid out row by row, left to right.
+ */
+export async function renderPdf(prepared: PreparedSvg, options: PdfExportOptions = {}): Promise<Blob> {
+  const {
+    paperSize = 'a4',
+    orientation = 'landscape',
+    scale = 0.75,
+    pageNumbers = true,
+    background = '#ffffff',
+  } = options;
+
+  const [portraitWidth, portraitHeight] = PAPER_SIZES[paperSize];
+  const pageWidth = orientation === 'landscape' ? portraitHeight : portraitWidth;
+  const pageHeight = orientation === 'landscape' ? portraitWidth : portraitHeight;
+  const footer = pageNumbers ? PAGE_FOOTER : 0;
+
+  // Chart pixels that fit on one page
+  const tileWidth = (pageWidth - PAGE_MARGIN * 2) / scale;
+  const tileHeight = (pageHeight - PAGE_MARGIN * 2 - footer) / scale;
+  const columns = Math.max(1, Math.ceil(prepared.width / tileWidth));
+  const rows = Math.max(1, Math.ceil(prepared.height / tileHeight));
+  const total = columns * rows;
+
+  // Raster at print resolution (~144 dpi) regardless of the chart scale
+  const resolution = clampScale(2 * scale, tileWidth, tileHeight);
+  const image = await loadSvgImage(prepared);
+  const pages: PdfPage[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const sx = column * tileWidth;
+      const sy = row * tileHeight;
+      const sw = Math.min(tileWidth, prepared.width - sx);
+      const sh = Math.min(tileHeight, prepared.height - sy);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(sw * resolution));
+      canvas.height = Math.max(1, Math.round(sh * resolution));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+
+      // JPEG has no alpha, so always paint a background
+      context.fillStyle = background === 'transparent' ? '#ffffff' : background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+      const drawWidth = sw * scale;
+      const drawHeight = sh * scale;
+      pages.push({
+        width: pageWidth,
+        height: pageHeight,
+        jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.92)),
+        imageWidth: canvas.width,
+        imageHeight: canvas.height,
+        x: PAGE_MARGIN,
+        // PDF origin is bottom-left; align tiles to the top margin
+        y: pageHeight - PAGE_MARGIN - drawHeight,
+        drawWidth,
+        drawHeight,
+        label: pageNumbers ? `Page ${pages.length + 1} of ${total}` : undefined,
+      });
+    }
+  }
+
+  return buildPdf(pages);
+}
+
+function resolveCssVariables(root: Element, computed: CSSStyleDeclaration): void {
+  const attributes = ['style', 'fill', 'stroke', 'stop-color'];
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))];
+
+  for (const element of elements) {
+    for (const name of attributes) {
+      const value = element.getAttribute(name);
+      if (value && value.includes('var(')) {
+        element.setAttribute(name, resolveVar(value, computed));
+      }
+    }
+  }
+}
+
+function resolveVar(value: string, computed: CSSStyleDeclaration): string {
+  const pattern = /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/g;
+  let result = value;
+  // Variables can reference other variables; a few passes resolves the chain
+  for (let pass = 0; pass < 5 && result.includes('var('); pass++) {
+    result = result.replace(pattern, (_match, name: string, fallback?: string) =>
+      computed.getPropertyValue(name).trim() || (fallback || '').trim()
+    );
+  }
+  return result;
+}
+
+async function fetchDataUrl(src: string): Promise<string | null> {
+  try {
+    const response = await fetch(new URL(src, document.baseURI).href);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) return null;
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+function loadSvgImage(prepared: PreparedSvg): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render chart image'));
+    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(new XMLSerializer().serializeToString(prepared.svg));
+  });
+}
+
+function clampScale(scale: number, width: number, height: number): number {
+  return Math.min(
+    scale,
+    MAX_CANVAS_SIDE / width,
+    MAX_CANVAS_SIDE / height,
+    Math.sqrt(MAX_CANVAS_AREA / (width * height))
+  );
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Minimal PDF 1.4 writer: one JPEG image per page plus an optional
+ * Helvetica footer label.
+ */
+function buildPdf(pages: PdfPage[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+  const num = (value: number) => String(Math.round(value * 100) / 100);
+
+  // Object ids: 1 catalog, 2 page tree, 3 font, then page/content/image per page
+  const pageIds = pages.map((_page, index) => 4 + index * 3);
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj\n');
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    let content = `q ${num(page.drawWidth)} 0 0 ${num(page.drawHeight)} ${num(page.x)} ${num(page.y)} cm /Im0 Do Q\n`;
+    if (page.label) {
+      const fontSize = 9;
+      // Helvetica averages roughly half an em per character
+      const textX = (page.width - page.label.length * fontSize * 0.5) / 2;
+      const textY = PAGE_MARGIN / 2;
+      content += `BT /F1 ${fontSize} Tf ${num(textX)} ${num(textY)} Td (${escapePdfText(page.label)}) Tj ET\n`;
+    }
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R >> /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    beginObject(contentId);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  let xref = `xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`;
+  for (let id = 1; id <= objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  write(xref);
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, '\\$&');
+}
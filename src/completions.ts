@@ -0,0 +1,317 @@
+/**
+ * Completions - Schema-aware autocomplete for the YChart YAML editor
+ *
+ * Suggests what fits where the cursor is:
+ * - data section keys: schema fields and their aliases not yet on the item,
+ *   and `_card` when there are named card templates
+ * - data section values: people for supervisor fields (names, or emails/ids
+ *   when a name is shared), ids for `parentId`, matches for dotted-line
+ *   fields, template names for `_card`, and the choices, booleans and
+ *   defaults a schema field allows
+ * - front matter: section names, `options:` keys and their values, schema
+ *   types, and tag names and settings under `card:` and `cards:`
+ *
+ * The document is parsed with the same settings the editor uses, so aliases
+ * and supervisor fields line up with the linter.
+ *
+ * Usage:
+ * ```typescript
+ * const source = ychartCompletions(text => OrgDocument.parse(text));
+ * const editor = new EditorView({
+ *   extensions: [basicSetup, EditorState.languageData.of(() => [{ autocomplete: source }])],
+ * });
+ * ```
+ */
+
+import type { Completion, CompletionContext, CompletionResult, CompletionSource } from '@codemirror/autocomplete';
+import type { Line } from '@codemirror/state';
+import * as jsyaml from 'js-yaml';
+import type { OrgDocument, OrgNode } from './orgDocument.js';
+import type { FieldSchema, YChartOptions } from './types.js';
+
+// `key: partial value` up to the cursor, optionally as the first key of an item
+const FIELD_VALUE_PATTERN = /^\s*(?:-\s+)?([^\s:#'"][^:#]*?):[ \t]*([^#]*)$/;
+// A partial key at the start of a line: indentation, optional item dash, word
+const FIELD_KEY_PATTERN = /^(\s*)(-\s+)?([\w$-]*)$/;
+
+/** Every chart option with a short description; keyed by YChartOptions so none are missed */
+const CHART_OPTIONS: Record<keyof YChartOptions, { detail: string; values?: string[] }> = {
+  nodeWidth: { detail: 'number' },
+  nodeHeight: { detail: 'number' },
+  childrenMargin: { detail: 'number' },
+  compactMarginBetween: { detail: 'number' },
+  compactMarginPair: { detail: 'number' },
+  neighbourMargin: { detail: 'number' },
+  editorTheme: { detail: 'light | dark', values: ['light', 'dark'] },
+  collapsible: { detail: 'boolean', values: ['true', 'false'] },
+  bgPatternStyle: { detail: 'dotted | dashed', values: ['dotted', 'dashed'] },
+  patternColor: { detail: 'color' },
+  toolbarPosition: {
+    detail: 'toolbar corner',
+    values: ['topleft', 'topright', 'bottomleft', 'bottomright', 'topcenter', 'bottomcenter'],
+  },
+  toolbarOrientation: { detail: 'horizontal | vertical', values: ['horizontal', 'vertical'] },
+  experimental: { detail: 'boolean', values: ['true', 'false'] },
+  forest: { detail: 'several top-level nodes', values: ['side-by-side', 'synthetic-root'] },
+  forestRoot: { detail: 'synthetic root fields' },
+  strictSchema: { detail: 'boolean', values: ['true', 'false'] },
+};
+
+const FRONT_MATTER_SECTIONS = ['options', 'schema', 'card', 'cards'];
+
+const SCHEMA_TYPES = ['string', 'number', 'boolean', 'email', 'date', 'url', 'phone', 'photo', 'array', 'object', 'enum[]'];
+
+const CARD_TAGS = ['div', 'span', 'p', 'strong', 'em', 'small', 'h1', 'h2', 'h3', 'h4', 'img', 'a', 'ul', 'li', 'br', 'hr', 'photo'];
+
+const CARD_SETTINGS = ['content', 'style', 'class', 'children', 'if', 'unless', 'each'];
+
+/**
+ * Create a completion source for YChart documents. `parse` turns the editor
+ * text into an OrgDocument; the last result is reused until the text changes.
+ */
+export function ychartCompletions(parse: (source: string) => OrgDocument): CompletionSource {
+  let cached: { source: string; doc: OrgDocument } | null = null;
+  // Half-typed lines elsewhere break the data; people are then taken from the last parse that worked
+  let lastWithItems: OrgDocument | null = null;
+  const getDocument = (source: string): OrgDocument => {
+    if (!cached || cached.source !== source) {
+      cached = { source, doc: parse(source) };
+      if (cached.doc.items) lastWithItems = cached.doc;
+    }
+    return cached.doc;
+  };
+
+  return (context: CompletionContext): CompletionResult | null => {
+    const line = context.state.doc.lineAt(context.pos);
+    const before = line.text.slice(0, context.pos - line.from);
+    const valueMatch = FIELD_VALUE_PATTERN.exec(before);
+    const keyMatch = valueMatch ? null : FIELD_KEY_PATTERN.exec(before);
+    if (!valueMatch && !keyMatch) return null;
+    // Don't pop up on blank lines unless asked to
+    if (keyMatch && !keyMatch[3] && !context.explicit) return null;
+
+    const doc = getDocument(context.state.doc.toString());
+    let options: Completion[];
+
+    if (line.from >= doc.dataOffset) {
+      options = valueMatch
+        ? dataValueOptions(doc.items ? doc : lastWithItems ?? doc, valueMatch[1].trim(), itemFields(context, line))
+        : dataKeyOptions(doc, itemFields(context, line));
+    } else {
+      if (line.number === 1 || /^---/.test(line.text)) return null;
+      const section = frontMatterSection(context, line);
+      options = valueMatch
+        ? frontMatterValueOptions(section, valueMatch[1].trim(), before)
+        : frontMatterKeyOptions(context, line, section, keyMatch!);
+    }
+
+    if (options.length === 0) return null;
+    const typed = valueMatch ? valueMatch[2] : keyMatch![3];
+    return { from: context.pos - typed.length, options, validFor: valueMatch ? /^[^#]*$/ : /^[\w$-]*$/ };
+  };
+}
+
+/**
+ * Keys and raw values of the data item around the cursor, found by scanning
+ * to the neighbouring `- ` lines. The cursor line itself is left out.
+ */
+function itemFields(context: CompletionContext, line: Line): Map<string, string> {
+  const fields = new Map<string, string>();
+  const text = context.state.doc;
+  const isItemStart = (n: number) => /^\s*-\s/.test(text.line(n).text);
+  const collect = (n: number) => {
+    const match = /^\s*(?:-\s+)?([^\s:#'"][^:#]*?):[ \t]*(.*)$/.exec(text.line(n).text);
+    if (match) fields.set(match[1].trim(), match[2].trim().replace(/^(["'])(.*)\1$/, '$2'));
+  };
+
+  let start = line.number;
+  while (start > 1 && !isItemStart(start)) start--;
+  if (start !== line.number) collect(start);
+  for (let n = start + 1; n <= text.lines && !isItemStart(n); n++) {
+    if (n !== line.number) collect(n);
+  }
+  return fields;
+}
+
+/** Schema fields (and aliases) the current item doesn't have yet */
+function dataKeyOptions(doc: OrgDocument, present: Map<string, string>): Completion[] {
+  const options: Completion[] = Object.entries(doc.schema)
+    .filter(([name, field]) => !present.has(name) && !(field.aliasOf && present.has(field.aliasOf)))
+    .map(([name, field]) => ({
+      label: name,
+      apply: `${name}: `,
+      type: 'property',
+      detail: field.aliasOf ? `alias of ${field.aliasOf}` : fieldDetail(field),
+      boost: field.aliasOf ? -1 : field.required ? 1 : 0,
+    }));
+  if (doc.cards && !present.has('_card')) {
+    options.push({ label: '_card', apply: '_card: ', type: 'property', detail: 'card template', boost: -1 });
+  }
+  return options;
+}
+
+function dataValueOptions(doc: OrgDocument, key: string, item: Map<string, string>): Completion[] {
+  const ownName = item.get(doc.nameField);
+  const others = doc.nodes.filter(node => ownName === undefined || String(node[doc.nameField] ?? '') !== ownName);
+
+  if (doc.supervisorFields.includes(key)) return supervisorOptions(doc, others);
+  if (key === 'parentId') {
+    return others.map(node => ({
+      label: String(node.id),
+      apply: yamlScalar(node.id),
+      type: 'variable',
+      detail: nodeLabel(doc, node),
+    }));
+  }
+
+  if (key === '_card') {
+    return Object.keys(doc.cards ?? {}).map(name => ({ label: name, apply: yamlScalar(name), type: 'enum' }));
+  }
+
+  const field = doc.schema[key];
+  if (field?.dottedLine) {
+    const matchField = field.dottedLine[0] ?? doc.nameField;
+    return others
+      .filter(node => node[matchField] !== undefined && node[matchField] !== null && node[matchField] !== '')
+      .map(node => ({
+        label: String(node[matchField]),
+        apply: yamlScalar(node[matchField]),
+        type: 'variable',
+        detail: matchField === doc.nameField ? undefined : nodeLabel(doc, node),
+      }));
+  }
+  return field ? fieldValueOptions(field) : [];
+}
+
+/**
+ * People a supervisor field can point at. Shared names would be ambiguous,
+ * so those people are offered by email (or id) instead.
+ */
+function supervisorOptions(doc: OrgDocument, candidates: OrgNode[]): Completion[] {
+  const nameCounts = new Map<string, number>();
+  doc.nodes.forEach(node => {
+    const name = String(node[doc.nameField] ?? '').toLowerCase();
+    nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+  });
+
+  return candidates
+    .filter(node => !(node._autoGeneratedId && !node[doc.nameField] && !node.email))
+    .map(node => {
+      const name = node[doc.nameField] === undefined || node[doc.nameField] === null ? '' : String(node[doc.nameField]);
+      const shared = name === '' || (nameCounts.get(name.toLowerCase()) ?? 0) > 1;
+      const value = shared ? node.email || node.id : name;
+      return {
+        label: String(value),
+        apply: yamlScalar(value),
+        type: 'variable',
+        detail: shared ? name || undefined : typeof node.title === 'string' ? node.title : undefined,
+      };
+    });
+}
+
+/** Values a field allows, with its default (if any) listed first */
+function fieldValueOptions(field: FieldSchema): Completion[] {
+  const values = field.values ?? (field.type === 'boolean' ? ['true', 'false'] : []);
+  const fallback = field.default === undefined ? undefined : String(field.default);
+  const options: Completion[] = values.map(value => ({
+    label: value,
+    // Enum choices are text, so `true` or `01` in an enum gets quoted
+    apply: field.type === 'boolean' ? value : yamlScalar(value),
+    type: 'enum',
+    detail: value === fallback ? 'default' : undefined,
+    boost: value === fallback ? 1 : 0,
+  }));
+
+  if (fallback !== undefined && !values.includes(fallback)) {
+    options.unshift({ label: fallback, apply: yamlScalar(field.default), type: 'constant', detail: 'default', boost: 1 });
+  }
+  return options;
+}
+
+/** Name of the top-level front matter key the cursor line belongs to */
+function frontMatterSection(context: CompletionContext, line: Line): string | null {
+  for (let n = line.number - 1; n > 1; n--) {
+    const match = /^([\w-]+)\s*:/.exec(context.state.doc.line(n).text);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function frontMatterKeyOptions(
+  context: CompletionContext,
+  line: Line,
+  section: string | null,
+  keyMatch: RegExpExecArray
+): Completion[] {
+  const [, indent, dash] = keyMatch;
+
+  if (indent === '' && !dash) {
+    return FRONT_MATTER_SECTIONS.map(name => ({ label: name, apply: `${name}:`, type: 'keyword' }));
+  }
+
+  if (section === 'options' && !dash) {
+    const present = new Set<string>();
+    for (let n = 2; n <= context.state.doc.lines; n++) {
+      const match = /^\s+([\w-]+)\s*:/.exec(context.state.doc.line(n).text);
+      if (n !== line.number && match && frontMatterSection(context, context.state.doc.line(n)) === 'options') {
+        present.add(match[1]);
+      }
+    }
+    return (Object.keys(CHART_OPTIONS) as (keyof YChartOptions)[])
+      .filter(key => !present.has(key))
+      .map(key => ({ label: key, apply: `${key}: `, type: 'property', detail: CHART_OPTIONS[key].detail }));
+  }
+
+  // Templates in `cards:` use the same tags and settings as `card:`
+  if (section === 'card' || section === 'cards') {
+    if (dash) {
+      return CARD_TAGS.map(tag => ({ label: tag, apply: `${tag}:`, type: 'type' }));
+    }
+    // Settings belong to the tag on the closest `- tag:` line above, indented further than it
+    for (let n = line.number - 1; n > 1; n--) {
+      const match = /^(\s*)-\s/.exec(context.state.doc.line(n).text);
+      if (match) {
+        return indent.length > match[1].length
+          ? CARD_SETTINGS.map(setting => ({ label: setting, apply: `${setting}: `, type: 'property' }))
+          : [];
+      }
+    }
+  }
+  return [];
+}
+
+function frontMatterValueOptions(section: string | null, key: string, before: string): Completion[] {
+  if (section === 'options' && /^\s/.test(before) && key in CHART_OPTIONS) {
+    const values = CHART_OPTIONS[key as keyof YChartOptions].values ?? [];
+    return values.map(value => ({ label: value, type: 'enum' }));
+  }
+  if (section === 'schema' && /^\s/.test(before)) {
+    return SCHEMA_TYPES.map(type => ({ label: type, type: 'type' }));
+  }
+  return [];
+}
+
+function fieldDetail(field: FieldSchema): string {
+  const type = field.type === 'enum' && field.values ? `enum[${field.values.join(', ')}]` : field.type;
+  return field.required ? `${type}, required` : type;
+}
+
+function nodeLabel(doc: OrgDocument, node: OrgNode): string | undefined {
+  const name = node[doc.nameField];
+  return name === undefined || name === null ? undefined : String(name);
+}
+
+/**
+ * Write a value as YAML. Text is quoted unless YAML reads it back as the
+ * same text, so `a: b`, `# x` and `[x]` stay strings, and so do `true`,
+ * `null`, `01`, `1e3` and `2024-01-01`.
+ */
+function yamlScalar(value: unknown): string {
+  if (typeof value !== 'string') return String(value);
+  try {
+    if (jsyaml.load(value) === value) return value;
+  } catch {
+    // Not valid on its own (e.g. `*x`, `@x`), so it needs quotes
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,267 @@
+/**
+ * CSV import/export for YChart
+ *
+ * Converts spreadsheet exports (e.g. from HR systems) into YChart YAML with
+ * front matter, and writes resolved org nodes back out as CSV so data can
+ * round-trip through Excel. DOM-free, so it can be used outside the editor.
+ *
+ * Usage:
+ * ```typescript
+ * const rows = parseCSV(csvText);
+ * const mapping = guessColumnMapping(rows[0]);
+ * const yaml = csvToYAML(csvText, { mapping });
+ * const csv = nodesToCSV(OrgDocument.parse(yaml).nodes);
+ * ```
+ */
+
+import * as jsyaml from 'js-yaml';
+import type { OrgNode } from './orgDocument.js';
+import type { YChartOptions } from './types.js';
+
+/** YChart fields a CSV column can be mapped onto */
+export const CSV_TARGET_FIELDS = ['name', 'title', 'supervisor', 'email', 'id', 'parentId'] as const;
+
+export type CsvTargetField = typeof CSV_TARGET_FIELDS[number];
+
+/** Maps each target field to the header of the CSV column that supplies it */
+export type CsvColumnMapping = Partial<Record<CsvTargetField, string>>;
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  /** Keep unmapped columns as extra fields named after their header (default: true) */
+  includeUnmapped?: boolean;
+  /** Chart options written to the front matter */
+  options?: YChartOptions;
+}
+
+// Common spreadsheet headers for each target field (compared normalized)
+const HEADER_SYNONYMS: Record<CsvTargetField, string[]> = {
+  name: ['name', 'full_name', 'employee', 'employee_name', 'display_name'],
+  title: ['title', 'job_title', 'position', 'role'],
+  supervisor: ['supervisor', 'manager', 'manager_name', 'reports_to', 'leader', 'supervisor_name'],
+  email: ['email', 'e_mail', 'email_address', 'work_email', 'mail'],
+  id: ['id', 'employee_id', 'emp_id', 'employee_number', 'person_id'],
+  parentId: ['parentid', 'parent_id', 'manager_id', 'supervisor_id', 'reports_to_id'],
+};
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells, escaped quotes,
+ * embedded newlines, CRLF line endings and a UTF-8 BOM. The delimiter
+ * (comma, semicolon or tab) is detected from the header line.
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines (e.g. trailing newline or spacer rows)
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Suggest a column mapping by matching headers against common names
+ * (e.g. "Manager" -> supervisor, "Employee ID" -> id).
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const field of CSV_TARGET_FIELDS) {
+    const header = headers.find(h =>
+      !used.has(h) && HEADER_SYNONYMS[field].includes(normalizeHeader(h))
+    );
+    if (header !== undefined) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Convert CSV text into YChart YAML with front matter.
+ * The schema lists the mapped fields plus any unmapped columns kept as-is.
+ */
+export function csvToYAML(text: string, importOptions: CsvImportOptions): string {
+  const { mapping, includeUnmapped = true, options } = importOptions;
+
+  if (!mapping.name && !mapping.id) {
+    throw new Error('CSV mapping must include a name or id column');
+  }
+
+  const rows = parseCSV(text);
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const [headers, ...records] = rows;
+  const columnIndex = (header: string | undefined) => header === undefined ? -1 : headers.indexOf(header);
+
+  for (const field of CSV_TARGET_FIELDS) {
+    if (mapping[field] !== undefined && columnIndex(mapping[field]) === -1) {
+      throw new Error(`Column "${mapping[field]}" mapped to ${field} not found in CSV header`);
+    }
+  }
+
+  const mappedHeaders = new Set(Object.values(mapping));
+  const extraColumns = includeUnmapped
+    ? headers
+        .map((header, index) => ({ header, index, field: normalizeHeader(header) }))
+        .filter(col => col.field && !mappedHeaders.has(col.header) && !(CSV_TARGET_FIELDS as readonly string[]).includes(col.field))
+    : [];
+
+  const items = records.map(record => {
+    const item: Record<string, string | number> = {};
+
+    // id/parentId first so each item starts with "- id:" like hand-written YAML
+    for (const field of ['id', 'parentId', 'name', 'title', 'supervisor', 'email'] as const) {
+      const index = columnIndex(mapping[field]);
+      const value = index === -1 ? '' : (record[index] ?? '').trim();
+      if (value === '') continue;
+      item[field] = field === 'id' || field === 'parentId' ? toId(value) : value;
+    }
+
+    for (const col of extraColumns) {
+      const value = (record[col.index] ?? '').trim();
+      if (value !== '') {
+        item[col.field] = value;
+      }
+    }
+
+    return item;
+  });
+
+  const schema: Record<string, string> = {};
+  for (const field of CSV_TARGET_FIELDS) {
+    if (mapping[field] === undefined || field === 'id' || field === 'parentId') continue;
+    schema[field] = field === 'name' ? 'string | required' : 'string | optional';
+  }
+  for (const col of extraColumns) {
+    schema[col.field] = 'string | optional';
+  }
+
+  const frontMatter: Record<string, unknown> = {};
+  if (options && Object.keys(options).length > 0) {
+    frontMatter.options = options;
+  }
+  frontMatter.schema = schema;
+
+  const dumpOptions = { indent: 2, lineWidth: -1, noRefs: true };
+  return `---\n${jsyaml.dump(frontMatter, dumpOptions)}---\n\n${jsyaml.dump(items, dumpOptions)}`;
+}
+
+/**
+ * Write resolved nodes as CSV. `id` and `parentId` come first, followed by
+ * every other field in first-seen order; internal `_` fields are skipped.
+ */
+export function nodesToCSV(nodes: OrgNode[]): string {
+  const columns = ['id', 'parentId'];
+  for (const node of nodes) {
+    for (const key of Object.keys(node)) {
+      if (!key.startsWith('_') && !columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  const lines = [columns.map(column => escapeCell(formatCell(column))).join(',')];
+  for (const node of nodes) {
+    lines.push(columns.map(column => escapeCell(formatCell(node[column]))).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// Numeric ids stay numbers so they match the id/parentId format in YAML
+function toId(value: string): string | number {
+  return /^\d+$/.test(value) && String(parseInt(value, 10)) === value ? parseInt(value, 10) : value;
+}
+
+// Leading characters that make spreadsheets evaluate a cell as a formula
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Text of a cell. Dates are written as `YYYY-MM-DD` (or a full timestamp
+ * when they have a time), and text that a spreadsheet would run as a
+ * formula gets a leading `'` so it is shown as text instead.
+ */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = Array.isArray(value) ? value.map(formatValue).join('; ') : formatValue(value);
+  return FORMULA_PREFIX_PATTERN.test(text) ? `'${text}` : text;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
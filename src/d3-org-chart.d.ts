@@ -29,10 +29,20 @@ export class OrgChart {
   removeNode(nodeId: string): this;
   onNodeClick(callback: (d: any) => void): this;
   onNodeDetailsClick(callback: (d: any) => void): this;
+  onNodeDoubleClick(callback: (d: any) => void): this;
+  onNodeContextMenu(callback: ((event: MouseEvent, d: any) => void) | null): this;
   onNodeSwap(callback: (data1: any, data2: any) => void): this;
+  onNodeMove(callback: (nodeData: any, newParentData: any) => void): this;
+  onNodeMoveRejected(callback: (nodeData: any, targetData: any) => void): this;
+  onNodeSelect(callback: (nodeId: string) => void): this;
+  onExpandOrCollapse(callback: (d: any) => void): this;
   enableSwapMode(enabled: boolean): this;
+  enableMoveMode(enabled: boolean): this;
   linkUpdate(callback: (d: any, i: number, arr: any[]) => void): this;
   nodeUpdate(callback: (d: any, i: number, arr: any[]) => void): this;
+  connections(connections: { from: string | number; to: string | number; label?: string }[]): this;
+  connectionsUpdate(callback: (d: any, i: number, arr: any[]) => void): this;
+  defs(callback: (state: any, visibleConnections: any[]) => string): this;
   buttonContent(content: string | ((d: any) => string)): this;
   layoutBindings(bindings?: any): any;
   getChartState(): any;
@@ -45,10 +45,18 @@ export class OrgChart {
             selectedNodesForSwap: [],
             onNodeSwap: (node1, node2) => { console.log('Nodes swapped:', node1, node2) },
 
+            /* MOVE MODE PROPERTIES */
+            moveMode: false,
+            moveDrag: null,
+            onNodeMove: () => { }, // (nodeData, newParentData) => {} - called after a node is dropped onto a new parent
+            onNodeMoveRejected: () => { }, // (nodeData, targetData) => {} - called when a drop would put a node under its own subtree
+
             /* SELECTION PROPERTIES */
             selectedNodeId: null,
             onNodeSelect: (nodeId) => { console.log('Node selected:', nodeId) },
             onNodeDetailsClick: (node) => { console.log('Node details clicked:', node) },
+            onNodeDoubleClick: (node) => { console.log('Node double-clicked:', node) },
+            onNodeContextMenu: null, // (event, node) => {} - replaces the browser context menu on nodes when set
 
             /*  INTENDED FOR PUBLIC OVERRIDE */
 
@@ -180,12 +188,15 @@ export class OrgChart {
                     .select('.node-rect')
                     .attr("stroke", d => {
                         if (d.data._selectedForSwap) return '#4169E1';  // Blue for selected nodes in swap mode
+                        if (d.data._moveDropTarget === 'valid') return '#2E8B57';  // Green for a valid drop target in move mode
+                        if (d.data._moveDropTarget === 'invalid') return '#E74C3C';  // Red when dropping would create a cycle
                         if (d.data._selectedForExpandCollapse) return '#4169E1';  // Blue for selected nodes in expand/collapse mode
                         if (d.data._highlighted || d.data._upToTheRootHighlighted) return '#E27396';
                         return 'none';
                     })
                     .attr("stroke-width", d => {
                         if (d.data._selectedForSwap) return 8;
+                        if (d.data._moveDropTarget) return 8;
                         if (d.data._selectedForExpandCollapse) return 8;
                         if (d.data._highlighted || d.data._upToTheRootHighlighted) return 10;
                         return 1;
@@ -1242,6 +1253,18 @@ export class OrgChart {
                 }
                 console.log('event fired, no handlers')
             })
+            .on("dblclick.node", (event, node) => {
+                if (node.data._pagingButton || attrs.swapMode || attrs.moveMode) return;
+                if (event.target.closest('.node-button-foreign-object, .details-btn')) return;
+                event.stopPropagation();
+                attrs.onNodeDoubleClick(node);
+            })
+            .on("contextmenu.node", (event, node) => {
+                if (!attrs.onNodeContextMenu || node.data._pagingButton) return;
+                event.preventDefault();
+                event.stopPropagation();
+                attrs.onNodeContextMenu(event, node);
+            })
             //  Event handler to the expand button
             .on("keydown.node", (event, node) => {
                 const { data } = node;
@@ -1257,7 +1280,9 @@ export class OrgChart {
                         this.onButtonClick(event, node)
                     }
                 }
-            });
+            })
+            // Drag-and-drop reparenting, only active while move mode is on
+            .call(this.createMoveDragBehavior());
         nodeEnter.each(attrs.nodeEnter)
 
         // Add background rectangle for the nodes
@@ -1691,6 +1716,23 @@ export class OrgChart {
             }
         });
         
+        overlayMerged.on("dblclick", function(event, d) {
+            if (d.data._pagingButton || attrs.swapMode || attrs.moveMode) return;
+            if (event.target.closest('.overlay-button, .details-btn')) return;
+            event.stopPropagation();
+            attrs.onNodeDoubleClick(d);
+        });
+        
+        overlayMerged.on("contextmenu", function(event, d) {
+            if (!attrs.onNodeContextMenu || d.data._pagingButton) return;
+            event.preventDefault();
+            event.stopPropagation();
+            attrs.onNodeContextMenu(event, d);
+        });
+
+        // The overlay covers the SVG nodes, so move mode drags start here in Safari
+        overlayEnter.call(this.createMoveDragBehavior());
+        
         overlayMerged
             .style("width", d => `${d.width}px`)
             .style("height", d => `${d.height}px`)
@@ -2586,6 +2628,182 @@ export class OrgChart {
         return this;
     }
 
+    // Enable or disable move mode (drag a node onto another node to reparent it)
+    enableMoveMode(enabled = true) {
+        const attrs = this.getChartState();
+        attrs.moveMode = enabled;
+        if (!enabled && attrs.moveDrag) {
+            this.setMoveDropTarget(null, null);
+            attrs.moveDrag = null;
+            if (attrs.root) this.update(attrs.root);
+        }
+        return this;
+    }
+
+    // Build the d3 drag behavior used by move mode. It is attached to the SVG
+    // nodes and to the HTML overlay divs that replace them in Safari.
+    createMoveDragBehavior() {
+        const attrs = this.getChartState();
+        const self = this;
+
+        return d3.drag()
+            .filter((event, node) => {
+                if (!attrs.moveMode || event.button || event.ctrlKey) return false;
+                if (node.data._pagingButton || node === attrs.root) return false;
+                return !event.target.closest('.node-button-foreign-object, .overlay-button, .details-btn');
+            })
+            // Pointer positions in chart coordinates, also for drags starting on the overlay
+            .container(() => attrs.nodesWrapper.node())
+            // Track the raw pointer instead of the node datum's layout coordinates
+            .subject((event) => ({ x: event.x, y: event.y }))
+            .on('start', function (event, node) {
+                const isOverlay = !(this instanceof SVGElement);
+                let originX, originY;
+                if (isOverlay) {
+                    originX = parseFloat(this.style.left) || 0;
+                    originY = parseFloat(this.style.top) || 0;
+                } else {
+                    const transform = attrs.layoutBindings[attrs.layout].nodeUpdateTransform(node);
+                    const match = transform.match(/translate\(([^,]+),\s*([^)]+)\)/);
+                    originX = match ? parseFloat(match[1]) : 0;
+                    originY = match ? parseFloat(match[2]) : 0;
+                }
+                attrs.moveDrag = {
+                    node,
+                    isOverlay,
+                    // Overlay divs are positioned in screen pixels
+                    scale: isOverlay ? (attrs.lastTransform || { k: 1 }).k : 1,
+                    startX: event.x,
+                    startY: event.y,
+                    originX,
+                    originY,
+                    target: null
+                };
+                d3.select(this).raise().interrupt().style('opacity', 0.7);
+            })
+            .on('drag', function (event) {
+                const drag = attrs.moveDrag;
+                if (!drag) return;
+                const x = drag.originX + (event.x - drag.startX) * drag.scale;
+                const y = drag.originY + (event.y - drag.startY) * drag.scale;
+                if (drag.isOverlay) {
+                    d3.select(this).style('left', `${x}px`).style('top', `${y}px`);
+                } else {
+                    d3.select(this).attr('transform', `translate(${x},${y})`);
+                }
+
+                const target = self.findMoveDropTarget(event.x, event.y, drag.node);
+                if (target !== drag.target) {
+                    drag.target = target;
+                    // The current parent is not highlighted: dropping there changes nothing
+                    const state = !target || self.isParentNode(drag.node, target) ? null
+                        : self.canMoveNode(drag.node, target) ? 'valid' : 'invalid';
+                    self.setMoveDropTarget(target, state);
+                }
+            })
+            .on('end', function () {
+                const drag = attrs.moveDrag;
+                attrs.moveDrag = null;
+                if (!drag) return;
+                d3.select(this).style('opacity', null);
+                self.setMoveDropTarget(null, null);
+
+                if (drag.target && self.canMoveNode(drag.node, drag.target)) {
+                    self.performMove(drag.node, drag.target);
+                } else {
+                    // Snap the node back to its original position
+                    self.update(attrs.root);
+                    if (drag.target && !self.isParentNode(drag.node, drag.target)) {
+                        attrs.onNodeMoveRejected(drag.node.data, drag.target.data);
+                    }
+                }
+            });
+    }
+
+    // Find the visible node under a point given in chart coordinates
+    findMoveDropTarget(x, y, draggedNode) {
+        const attrs = this.getChartState();
+        const nodes = attrs.visibleNodes || [];
+        return nodes.find(d => {
+            if (d === draggedNode || d.data._pagingButton) return false;
+            const transform = attrs.layoutBindings[attrs.layout].nodeUpdateTransform(d);
+            const match = transform.match(/translate\(([^,]+),\s*([^)]+)\)/);
+            if (!match) return false;
+            const left = parseFloat(match[1]);
+            const top = parseFloat(match[2]);
+            return x >= left && x <= left + d.width && y >= top && y <= top + d.height;
+        }) || null;
+    }
+
+    // Check if a node can be moved under a new parent without creating a cycle
+    canMoveNode(node, newParent) {
+        const attrs = this.getChartState();
+        if (!node || !newParent) return false;
+
+        const nodeId = String(attrs.nodeId(node.data));
+        const byId = new Map(attrs.data.map(d => [String(attrs.nodeId(d)), d]));
+
+        // Walk up from the new parent; reaching the dragged node means a cycle
+        const visited = new Set();
+        let current = newParent.data;
+        while (current) {
+            const currentId = String(attrs.nodeId(current));
+            if (currentId === nodeId) return false;
+            if (visited.has(currentId)) break;
+            visited.add(currentId);
+            const parentId = attrs.parentNodeId(current);
+            current = parentId === null || parentId === undefined || parentId === '' ? null : byId.get(String(parentId));
+        }
+
+        // Dropping onto the current parent is a no-op
+        return !this.isParentNode(node, newParent);
+    }
+
+    // Check if a node is the current parent of another node
+    isParentNode(node, parent) {
+        const attrs = this.getChartState();
+        return String(attrs.parentNodeId(node.data)) === String(attrs.nodeId(parent.data));
+    }
+
+    // Reparent a node (and its subtree) under a new parent
+    performMove(node, newParent) {
+        const attrs = this.getChartState();
+
+        const data = attrs.data.find(d => attrs.nodeId(d) === attrs.nodeId(node.data));
+        const parentData = attrs.data.find(d => attrs.nodeId(d) === attrs.nodeId(newParent.data));
+
+        if (!data || !parentData) {
+            console.log('Error: Could not find data for moved nodes');
+            return this;
+        }
+
+        if (data.parentNodeId !== undefined) {
+            data.parentNodeId = attrs.nodeId(parentData);
+        } else {
+            data.parentId = attrs.nodeId(parentData);
+        }
+        parentData._expanded = true;
+
+        // Trigger callback
+        attrs.onNodeMove(data, parentData);
+
+        // Re-render the chart
+        this.updateNodesState();
+        return this;
+    }
+
+    // Mark (or clear) the node currently hovered as a drop target
+    setMoveDropTarget(node, state) {
+        const attrs = this.getChartState();
+        (attrs.visibleNodes || []).forEach(d => {
+            d.data._moveDropTarget = d === node ? state : null;
+        });
+        if (attrs.nodesWrapper) {
+            attrs.nodesWrapper.selectAll('g.node').each(attrs.nodeUpdate);
+        }
+        return this;
+    }
+
     // Clear after moving off from the page
     clear() {
         const attrs = this.getChartState();
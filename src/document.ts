@@ -0,0 +1,25 @@
+/**
+ * Document - DOM-free entry point for the YChart data model
+ *
+ * Exposes the parts of YChart that work without a browser: parsing and
+ * linting documents (OrgDocument), minimal-diff edits (YamlPatch) and CSV
+ * import/export. Nothing here imports CodeMirror, d3 or styles, so it can be
+ * used from Node scripts, tests and servers. Published as the
+ * `@mieweb/ychart-editor/document` subpath.
+ *
+ * Usage:
+ * ```typescript
+ * import { OrgDocument, YamlPatch } from '@mieweb/ychart-editor/document';
+ *
+ * const doc = OrgDocument.parse(source);
+ * const updated = new YamlPatch(source).setField(0, 'title', 'CTO').toString();
+ * ```
+ */
+
+export { OrgDocument, parseSchemaField, resolveMissingParentIds, splitSections, DEFAULT_SUPERVISOR_FIELDS } from './orgDocument.js';
+export { YamlPatch } from './yamlPatch.js';
+export { CSV_TARGET_FIELDS, parseCSV, guessColumnMapping, csvToYAML, nodesToCSV } from './csv.js';
+export type { SetFieldOptions } from './yamlPatch.js';
+export type { CsvColumnMapping, CsvImportOptions, CsvTargetField } from './csv.js';
+export type { OrgNode, OrgConnection, OrgDiagnostic, OrgDocumentConfig, DiagnosticSeverity, SourceSections } from './orgDocument.js';
+export type { YChartOptions, ForestMode, FieldSchema, SchemaDefinition, CardElement, CardConfig, CardTemplate, CardTemplates, FrontMatter } from './types.js';
@@ -0,0 +1,156 @@
+/**
+ * HistoryManager - Named undo/redo stack
+ *
+ * Every entry is a discrete, labelled operation ("Swap Alice ↔ Bob",
+ * "Format YAML") that knows how to undo and redo itself.
+ *
+ * Usage:
+ * ```typescript
+ * const history = new HistoryManager({ onChange: () => updateButtons() });
+ * history.push({ label: 'Format YAML', undo: () => apply(before), redo: () => apply(after) });
+ * history.undo(); // returns 'Format YAML'
+ * ```
+ */
+
+export interface HistoryEntry {
+  /** Human-readable name shown in undo/redo tooltips */
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /** Set on entries that mirror steps of another undo history (see markUndone) */
+  source?: string;
+}
+
+export interface HistoryManagerOptions {
+  /** Maximum number of undo entries kept (default: 100) */
+  limit?: number;
+  /** Called whenever the undo or redo stack changes */
+  onChange?: () => void;
+}
+
+export class HistoryManager {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private limit: number;
+  private onChange: (() => void) | undefined;
+  private applying = false;
+
+  constructor(options: HistoryManagerOptions = {}) {
+    this.limit = options.limit ?? 100;
+    this.onChange = options.onChange;
+  }
+
+  /**
+   * Record an operation that has already been applied. Clears the redo stack.
+   */
+  push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * Undo the most recent entry. Returns its label, or null if there was nothing to undo.
+   */
+  undo(): string | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.run(entry.undo);
+    this.redoStack.push(entry);
+    this.notify();
+    return entry.label;
+  }
+
+  /**
+   * Redo the most recently undone entry. Returns its label, or null if there was nothing to redo.
+   */
+  redo(): string | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.run(entry.redo);
+    this.undoStack.push(entry);
+    this.notify();
+    return entry.label;
+  }
+
+  /**
+   * Follow an undo that the history behind `source` ran by itself: move the
+   * newest entry from that source to the redo stack without running it.
+   */
+  markUndone(source: string): void {
+    const index = lastIndexOfSource(this.undoStack, source);
+    if (index === -1) return;
+
+    this.redoStack.push(...this.undoStack.splice(index, 1));
+    this.notify();
+  }
+
+  /**
+   * Follow a redo that the history behind `source` ran by itself: move the
+   * newest undone entry from that source back to the undo stack.
+   */
+  markRedone(source: string): void {
+    const index = lastIndexOfSource(this.redoStack, source);
+    if (index === -1) return;
+
+    this.undoStack.push(...this.redoStack.splice(index, 1));
+    this.notify();
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Label of the entry undo() would revert */
+  undoLabel(): string | null {
+    return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null;
+  }
+
+  /** Label of the entry redo() would reapply */
+  redoLabel(): string | null {
+    return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null;
+  }
+
+  /** True while an undo or redo callback is running */
+  isApplying(): boolean {
+    return this.applying;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  private run(action: () => void): void {
+    this.applying = true;
+    try {
+      action();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private notify(): void {
+    if (this.onChange) {
+      this.onChange();
+    }
+  }
+}
+
+function lastIndexOfSource(entries: HistoryEntry[], source: string): number {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].source === source) return i;
+  }
+  return -1;
+}
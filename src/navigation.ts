@@ -0,0 +1,215 @@
+/**
+ * Navigation - Hover info and go-to-definition for the YChart YAML editor
+ *
+ * Hovering a field of a person shows what it resolves to: who a supervisor,
+ * `parentId` or dotted-line value points at, how many people report to the
+ * person, and the field's schema definition. Ctrl+Click (Cmd+Click on macOS)
+ * on a supervisor, `parentId` or dotted-line value jumps to the YAML item of
+ * the person it names.
+ *
+ * Usage:
+ * ```typescript
+ * const parse = (text: string) => OrgDocument.parse(text);
+ * const editor = new EditorView({
+ *   extensions: [basicSetup, ychartHover(parse), ychartGoToDefinition(parse, line => jumpTo(line))],
+ * });
+ * ```
+ */
+
+import { EditorView, hoverTooltip, type Tooltip } from '@codemirror/view';
+import type { EditorState, Extension } from '@codemirror/state';
+import type { OrgDocument, OrgNode } from './orgDocument.js';
+import type { FieldSchema } from './types.js';
+
+/** A `key: value` line of a data item */
+interface FieldReference {
+  /** Index of the item (and its node) in the document */
+  index: number;
+  key: string;
+  value: string;
+  /** Source range of the whole `key: value` text */
+  from: number;
+  to: number;
+  /** Source range of the value */
+  valueFrom: number;
+  valueTo: number;
+}
+
+const FIELD_LINE_PATTERN = /^(\s*(?:-\s+)?)([^\s:#'"][^:#]*?):([ \t]*)(.*?)\s*(?:#.*)?$/;
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Reuse the last parse while the text is unchanged */
+function cachedParser(parse: (source: string) => OrgDocument): (state: EditorState) => OrgDocument {
+  let cached: { source: string; doc: OrgDocument } | null = null;
+  return (state) => {
+    const source = state.doc.toString();
+    if (!cached || cached.source !== source) cached = { source, doc: parse(source) };
+    return cached.doc;
+  };
+}
+
+/** The data item field on the line at `pos`, if any */
+function fieldAt(doc: OrgDocument, state: EditorState, pos: number): FieldReference | null {
+  if (!doc.items || pos < doc.dataOffset) return null;
+
+  const line = state.doc.lineAt(pos);
+  const match = FIELD_LINE_PATTERN.exec(line.text);
+  if (!match) return null;
+
+  const index = doc.itemIndexAt(line.from);
+  if (index === -1 || !doc.nodes[index]) return null;
+
+  const [, lead, key, gap, value] = match;
+  const from = line.from + lead.length;
+  const valueFrom = from + key.length + 1 + gap.length;
+  return {
+    index,
+    key: key.trim(),
+    value: value.replace(/^(["'])(.*)\1$/, '$2'),
+    from,
+    to: valueFrom + value.length,
+    valueFrom,
+    valueTo: valueFrom + value.length,
+  };
+}
+
+/**
+ * The person a supervisor, `parentId` or dotted-line field points at. For
+ * list values, `at` selects the entry under the cursor.
+ */
+function referencedNode(doc: OrgDocument, field: FieldReference, at?: number): OrgNode | undefined {
+  const node = doc.nodes[field.index];
+  if (field.key === 'parentId' || doc.supervisorFields.includes(field.key)) {
+    return doc.parentNode(node);
+  }
+
+  const connections = doc.connections.filter(c => c.field === field.key && String(c.to) === String(node.id));
+  if (connections.length === 0) return undefined;
+
+  let connection = connections[0];
+  if (at !== undefined && connections.length > 1) {
+    // `[a, b]`: count the commas before the cursor to pick the entry
+    const before = field.value.slice(0, Math.max(0, at - field.valueFrom));
+    connection = connections[Math.min(before.split(',').length - 1, connections.length - 1)];
+  }
+  return doc.nodes.find(n => String(n.id) === String(connection.from));
+}
+
+function isLinkField(doc: OrgDocument, key: string): boolean {
+  return key === 'parentId' || doc.supervisorFields.includes(key) || !!doc.schema[key]?.dottedLine;
+}
+
+function nodeName(doc: OrgDocument, node: OrgNode): string {
+  const name = node[doc.nameField];
+  return name === undefined || name === null || name === '' ? String(node.id) : String(name);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeSchema(name: string, field: FieldSchema): string {
+  if (field.aliasOf) return `Alias of the "${field.aliasOf}" field`;
+  if (field.dottedLine) return `Dotted-line field, matched on ${(field.dottedLine.length ? field.dottedLine : ['name']).join(' or ')}`;
+
+  const parts = [field.type === 'enum' && field.values ? `one of ${field.values.join(', ')}` : field.type];
+  if (field.required && !field.missing) parts.push('required');
+  if (field.pattern !== undefined) parts.push(`pattern /${field.pattern}/${field.patternFlags ?? ''}`);
+  if (field.min !== undefined) parts.push(`min ${field.min}`);
+  if (field.max !== undefined) parts.push(`max ${field.max}`);
+  if (field.default !== undefined) parts.push(`default ${field.default}`);
+  if (field.html) parts.push('HTML');
+  if (field.aliases?.length) parts.push(`aliases: ${field.aliases.join(', ')}`);
+  return `${name}: ${parts.join(' · ')}`;
+}
+
+function tooltipLine(text: string, muted = false): HTMLElement {
+  const line = document.createElement('div');
+  line.textContent = text;
+  if (muted) line.style.cssText = 'opacity: 0.7;';
+  return line;
+}
+
+/** Hover tooltips for the fields of data items */
+export function ychartHover(parse: (source: string) => OrgDocument): Extension {
+  const getDocument = cachedParser(parse);
+
+  return hoverTooltip((view, pos): Tooltip | null => {
+    const doc = getDocument(view.state);
+    const field = fieldAt(doc, view.state, pos);
+    if (!field || pos < field.from || pos > field.to) return null;
+
+    const node = doc.nodes[field.index];
+    const lines: HTMLElement[] = [];
+
+    if (isLinkField(doc, field.key) && field.value !== '') {
+      const target = referencedNode(doc, field, pos);
+      const relation = doc.schema[field.key]?.dottedLine ? 'Dotted line to' : 'Reports to';
+      if (target) {
+        const title = typeof target.title === 'string' && target.title ? ` (${target.title})` : '';
+        lines.push(tooltipLine(`${relation} ${nodeName(doc, target)}${title} - line ${doc.itemLine(doc.nodes.indexOf(target))}`));
+        lines.push(tooltipLine(`${plural(doc.directReports(target).length, 'direct report')}, ${doc.totalReports(target)} in total`, true));
+        lines.push(tooltipLine(`${isMac ? 'Cmd' : 'Ctrl'}+Click to go to ${nodeName(doc, target)}`, true));
+      } else {
+        lines.push(tooltipLine(`"${field.value}" doesn't match anyone in the chart`));
+      }
+    } else if (field.key === doc.nameField || field.key === 'id') {
+      const parent = doc.parentNode(node);
+      lines.push(tooltipLine(`${nodeName(doc, node)}: ${plural(doc.directReports(node).length, 'direct report')}, ${doc.totalReports(node)} in total`));
+      lines.push(tooltipLine(parent ? `Reports to ${nodeName(doc, parent)}` : 'Top of the chart', true));
+    }
+
+    const schema = doc.schema[field.key];
+    if (schema) lines.push(tooltipLine(describeSchema(field.key, schema), lines.length > 0));
+    if (lines.length === 0) return null;
+
+    return {
+      pos: field.from,
+      end: field.to,
+      above: true,
+      create: () => {
+        const dom = document.createElement('div');
+        dom.style.cssText = `
+          padding: var(--yc-spacing-xs) var(--yc-spacing-sm);
+          font-size: var(--yc-font-size-xs);
+          line-height: 1.5;
+          max-width: 360px;
+        `;
+        lines.forEach(line => dom.appendChild(line));
+        return { dom };
+      },
+    };
+  });
+}
+
+/**
+ * Ctrl+Click (Cmd+Click on macOS) on a supervisor, `parentId` or dotted-line
+ * value calls `jumpToLine` with the line of the person it points at.
+ */
+export function ychartGoToDefinition(
+  parse: (source: string) => OrgDocument,
+  jumpToLine: (line: number) => void
+): Extension {
+  const getDocument = cachedParser(parse);
+
+  return EditorView.domEventHandlers({
+    mousedown: (event, view) => {
+      if (!(isMac ? event.metaKey : event.ctrlKey) || event.button !== 0) return false;
+
+      const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+      if (pos === null) return false;
+
+      const doc = getDocument(view.state);
+      const field = fieldAt(doc, view.state, pos);
+      if (!field || !isLinkField(doc, field.key) || pos < field.valueFrom || pos > field.valueTo) return false;
+
+      const target = referencedNode(doc, field, pos);
+      if (!target) return false;
+
+      event.preventDefault();
+      jumpToLine(doc.itemLine(doc.nodes.indexOf(target)));
+      return true;
+    },
+  });
+}
@@ -136,7 +136,7 @@ export class NodeHeightSyncService {
       if (!contentDiv) return;
 
       // Force a reflow to ensure accurate measurement
-      contentDiv.offsetHeight;
+      void contentDiv.offsetHeight;
 
       // Measure the actual scrollHeight (full content height)
       const contentHeight = contentDiv.scrollHeight;
@@ -0,0 +1,1305 @@
+/**
+ * OrgDocument - Headless data model for YChart documents
+ *
+ * Parses a YChart source (YAML front matter + data), resolves parent
+ * relationships and validates the structure without touching the DOM.
+ * The editor uses it for rendering and linting, and it can be used on its
+ * own from Node.js scripts and tests to load the same YAML the editor does.
+ *
+ * Usage:
+ * ```typescript
+ * const doc = OrgDocument.parse(yamlSource);
+ * if (doc.hasErrors) {
+ *   doc.diagnostics.forEach(d => console.error(d.message));
+ * }
+ * doc.nodes.forEach(node => console.log(node.id, node.parentId));
+ * ```
+ */
+
+import * as jsyaml from 'js-yaml';
+import { isMap, isNode, isScalar, isSeq, parseDocument, type Pair, type Scalar, type YAMLSeq } from 'yaml';
+import type { YChartOptions, FieldSchema, SchemaDefinition, CardElement, CardTemplates, FrontMatter, ForestMode } from './types.js';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface OrgDiagnostic {
+  /** Start offset in the full source */
+  from: number;
+  /** End offset in the full source */
+  to: number;
+  /** 1-based line number of `from` */
+  line: number;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+export interface OrgNode {
+  id: string | number;
+  parentId: string | number | null;
+  /** Set when the id was generated because the item had none */
+  _autoGeneratedId?: boolean;
+  [field: string]: unknown;
+}
+
+/** Secondary (dotted-line) reporting relationship declared via the schema */
+export interface OrgConnection {
+  /** Id of the dotted-line manager */
+  from: string | number;
+  /** Id of the node declaring the relationship */
+  to: string | number;
+  label: string;
+  /** Schema field the relationship was read from */
+  field: string;
+}
+
+export interface OrgDocumentConfig {
+  /** Fields checked (in order) for the supervisor's name when parentId is missing */
+  supervisorFields?: string[];
+  /** Field holding the node's name, matched against supervisor values */
+  nameField?: string;
+  /** Forest mode used when the front matter doesn't set `options.forest` */
+  forest?: ForestMode;
+}
+
+const FOREST_MODES: ForestMode[] = ['side-by-side', 'synthetic-root'];
+
+export const DEFAULT_SUPERVISOR_FIELDS = ['supervisor', 'reports', 'reports_to', 'manager', 'leader', 'parent'];
+
+export interface SourceSections {
+  frontMatter: string | null;
+  frontMatterOffset: number;
+  data: string;
+  dataOffset: number;
+}
+
+export class OrgDocument {
+  readonly source: string;
+  readonly options: YChartOptions = {};
+  readonly schema: SchemaDefinition = {};
+  readonly card: CardElement[] | undefined;
+  /** Named card templates from `cards:`, picked per node by `_card` or their rules */
+  readonly cards: CardTemplates | undefined;
+  /** Raw data section (everything after the front matter) */
+  readonly data: string;
+  /** Offset of the data section within the source */
+  readonly dataOffset: number;
+  /** Parsed data items, or null when the data section is not a valid array */
+  readonly items: any[] | null = null;
+  /** Items with ids and parentIds resolved */
+  readonly nodes: OrgNode[] = [];
+  /** Dotted-line relationships resolved from the schema's dotted-line fields */
+  readonly connections: OrgConnection[] = [];
+  /** Reporting cycles, each listed in parent order starting from its first item */
+  readonly cycles: OrgNode[][] = [];
+  readonly diagnostics: OrgDiagnostic[] = [];
+  readonly supervisorFields: string[];
+  readonly nameField: string;
+  /** How several top-level nodes are drawn; undefined means extra roots are errors */
+  readonly forest: ForestMode | undefined;
+  /**
+   * Sources starting with `[` or `{` are JSON: a data array, or an object with
+   * `options`, `schema`, `card` and a `data` array. Either way they're read
+   * with the YAML parser, of which JSON is a subset.
+   */
+  readonly format: 'yaml' | 'json';
+  /** Raw front matter sections (`options`, `schema`, `card`, ...) as written */
+  private frontMatterData: Record<string, unknown> | null = null;
+  /** `yaml` parse of the data with source ranges, built lazily by fieldRange */
+  private dataTree: ReturnType<typeof parseDocument> | null = null;
+  private reportIndexCache: { byId: Map<string, OrgNode>; reports: Map<OrgNode, OrgNode[]> } | null = null;
+
+  private constructor(source: string, config: OrgDocumentConfig) {
+    this.source = source;
+    this.supervisorFields = config.supervisorFields ?? DEFAULT_SUPERVISOR_FIELDS;
+    this.nameField = config.nameField ?? 'name';
+    this.forest = config.forest;
+
+    const sections = splitSections(source);
+    this.data = sections.data;
+    this.dataOffset = sections.dataOffset;
+    this.format = /^\s*[[{]/.test(source) ? 'json' : 'yaml';
+
+    // A JSON object holds the front matter sections and the items under `data`
+    let jsonObject: Record<string, any> | null = null;
+    if (/^\s*\{/.test(source)) {
+      try {
+        jsonObject = (jsyaml.load(source) as Record<string, any>) || {};
+      } catch (error) {
+        this.addError(error, 0);
+        return;
+      }
+    }
+
+    if (sections.frontMatter !== null || jsonObject) {
+      try {
+        const parsed = jsonObject ?? ((jsyaml.load(sections.frontMatter!) as any) || {});
+        this.frontMatterData = { ...parsed };
+        delete this.frontMatterData!.data;
+        this.options = parsed.options || {};
+        this.card = parsed.card || undefined;
+        this.cards = this.parseCards(parsed.cards);
+        this.schema = parseSchema(parsed.schema, (field, constraint, problem) => {
+          const { from, to } = this.frontMatterLine(field) ?? { from: 0, to: 0 };
+          this.addDiagnostic(from, to, 'warning',
+            `Line ${lineNumberAt(source, from)}: Invalid ${constraint} for field "${field}" - ${problem}`);
+        });
+
+        // Supervisor aliases declared in the schema take over the lookup fields
+        if (this.schema.supervisor && this.schema.supervisor.aliases) {
+          this.supervisorFields = ['supervisor', ...this.schema.supervisor.aliases];
+        }
+
+        if (this.options.forest !== undefined) {
+          if (FOREST_MODES.includes(this.options.forest)) {
+            this.forest = this.options.forest;
+          } else {
+            const { from, to } = this.frontMatterLine('forest') ?? { from: sections.frontMatterOffset, to: sections.frontMatterOffset };
+            this.addDiagnostic(from, to, 'warning',
+              `Line ${lineNumberAt(source, from)}: Unknown forest mode "${this.options.forest}" - use ${FOREST_MODES.join(' or ')}`);
+          }
+        }
+      } catch (error) {
+        this.addError(error, sections.frontMatterOffset);
+        return;
+      }
+    }
+
+    try {
+      const parsed = jsonObject ? jsonObject.data : jsyaml.load(this.data);
+
+      // Validate that the data is an array
+      if (jsonObject ? !Array.isArray(parsed) : parsed !== null && parsed !== undefined && !Array.isArray(parsed)) {
+        this.addDiagnostic(
+          this.dataOffset,
+          Math.min(this.dataOffset + 50, source.length),
+          'error',
+          jsonObject
+            ? 'JSON documents must be an array of objects or an object with a "data" array'
+            : 'YAML data must be an array of objects (start each item with "- ")'
+        );
+        return;
+      }
+
+      if (Array.isArray(parsed)) {
+        this.items = parsed;
+        if (!this.validateItems(parsed)) return;
+        this.restoreInvalidDates(parsed);
+        this.nodes = this.applyDefaults(resolveMissingParentIds(parsed, this.supervisorFields, this.nameField));
+        this.validateStructure(parsed);
+        this.checkDuplicates(parsed);
+        this.validateSchema(parsed);
+        this.validateCardNames(parsed);
+        this.cycles = this.detectCycles();
+        this.connections = this.resolveConnections();
+      }
+    } catch (error) {
+      this.addError(error, this.dataOffset);
+    }
+  }
+
+  /**
+   * Parse a YChart source string (front matter + data).
+   */
+  static parse(source: string, config: OrgDocumentConfig = {}): OrgDocument {
+    return new OrgDocument(source, config);
+  }
+
+  /**
+   * Split a source string into its front matter sections and raw data.
+   * Invalid front matter yields empty options and schema.
+   */
+  static parseFrontMatter(content: string): FrontMatter {
+    const doc = OrgDocument.parse(content);
+    return { options: doc.options, schema: doc.schema, card: doc.card, cards: doc.cards, data: doc.data };
+  }
+
+  /** Top-level nodes; more than one makes the document a forest */
+  get roots(): OrgNode[] {
+    return this.nodes.filter(node => node.parentId === null || node.parentId === undefined || node.parentId === '');
+  }
+
+  /**
+   * Nodes that can be drawn as a tree: everything except nodes in a reporting
+   * cycle and the nodes below them.
+   */
+  get acyclicNodes(): OrgNode[] {
+    if (this.cycles.length === 0) return this.nodes;
+
+    const byId = new Map(this.nodes.map(node => [String(node.id), node]));
+    const excluded = new Set<OrgNode>();
+    this.cycles.forEach(cycle => cycle.forEach(node => excluded.add(node)));
+
+    return this.nodes.filter(node => {
+      const seen = new Set<OrgNode>();
+      let current: OrgNode | undefined = node;
+      while (current && !seen.has(current)) {
+        if (excluded.has(current)) return false;
+        seen.add(current);
+        current = this.parentOf(current, byId);
+      }
+      return true;
+    });
+  }
+
+  /** 1-based source line of an item (its `id` line when it has one) */
+  itemLine(index: number): number {
+    return lineNumberAt(this.source, this.fieldRange(index, 'id').from);
+  }
+
+  /**
+   * The document as JSON-ready values, mirroring how it was written: the data
+   * array, or `{ options, schema, card, data }` when it has front matter.
+   * Dates are written as `YYYY-MM-DD`.
+   */
+  toJSON(): unknown[] | Record<string, unknown> {
+    const data = toJsonValue(this.items ?? []) as unknown[];
+    return this.frontMatterData ? { ...(toJsonValue(this.frontMatterData) as Record<string, unknown>), data } : data;
+  }
+
+  /** Source range of an item's text, from its first key to its last value */
+  itemRange(index: number): { from: number; to: number } {
+    return this.fieldRange(index);
+  }
+
+  /** Index of the data item whose text contains a source offset, or -1 */
+  itemIndexAt(offset: number): number {
+    const seq = this.dataSequence();
+    if (!seq || offset < this.dataOffset) return -1;
+
+    const local = offset - this.dataOffset;
+    return seq.items.findIndex(item => {
+      if (!isMap(item) || !item.range) return false;
+      // A YAML item's range starts after its `- `, which belongs to the item too
+      let start = item.range[0];
+      while (start > 0 && (this.data[start - 1] === ' ' || this.data[start - 1] === '\t' || this.data[start - 1] === '-')) start--;
+      // The end is exclusive, except at the end of the document where the cursor can sit after the last item
+      const end = item.range[2];
+      return start <= local && (local < end || (local === end && end === this.data.length));
+    });
+  }
+
+  /** A node's manager, or undefined for top-level nodes */
+  parentNode(node: OrgNode): OrgNode | undefined {
+    return this.parentOf(node, this.reportIndex().byId);
+  }
+
+  /** People reporting directly to a node, in document order */
+  directReports(node: OrgNode): OrgNode[] {
+    return this.reportIndex().reports.get(node) ?? [];
+  }
+
+  /** Number of people below a node, however deep */
+  totalReports(node: OrgNode): number {
+    const seen = new Set<OrgNode>([node]);
+    const queue = [...this.directReports(node)];
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (seen.has(next)) continue;  // Guards against reporting cycles
+      seen.add(next);
+      queue.push(...this.directReports(next));
+    }
+    return seen.size - 1;
+  }
+
+  /** Whether any diagnostic has error severity */
+  get hasErrors(): boolean {
+    return this.diagnostics.some(d => d.severity === 'error');
+  }
+
+  /** Range of a front matter line starting with `key:` (`"key":` in JSON), if there is one */
+  private frontMatterLine(key: string): { from: number; to: number } | null {
+    const end = this.format === 'json' ? this.source.length : this.dataOffset;
+    const match = new RegExp(`^[ \\t{]*"?${escapeRegex(key)}"?[ \\t]*:.*$`, 'm').exec(this.source.slice(0, end));
+    return match ? { from: match.index, to: match.index + match[0].length } : null;
+  }
+
+  private addDiagnostic(from: number, to: number, severity: DiagnosticSeverity, message: string): void {
+    this.diagnostics.push({ from, to, line: lineNumberAt(this.source, from), severity, message });
+  }
+
+  /**
+   * Record a thrown parse/validation error. js-yaml errors carry a mark
+   * relative to the parsed section, which is shifted by `offset`.
+   */
+  private addError(error: unknown, offset: number): void {
+    if (error instanceof jsyaml.YAMLException && error.mark) {
+      const from = Math.min(offset + error.mark.position, this.source.length);
+      const lineEnd = this.source.indexOf('\n', from);
+      const line = lineNumberAt(this.source, from);
+      this.addDiagnostic(from, lineEnd === -1 ? this.source.length : lineEnd, 'error', `Line ${line}: ${error.reason || error.message}`);
+    } else if (error instanceof Error) {
+      this.addDiagnostic(0, Math.min(50, this.source.length), 'error', error.message);
+    }
+  }
+
+  /**
+   * Flag list entries that aren't objects, such as a bare `-` line or a plain
+   * value. The remaining checks read fields from every item, so they only run
+   * when this returns true.
+   */
+  private validateItems(parsed: unknown[]): boolean {
+    let valid = true;
+    parsed.forEach((item, index) => {
+      if (item !== null && typeof item === 'object' && !Array.isArray(item) && !(item instanceof Date)) return;
+      valid = false;
+      const { from, to } = this.entryRange(index);
+      const line = lineNumberAt(this.source, from);
+      this.addDiagnostic(from, to, 'error', item === null || item === undefined
+        ? `Line ${line}: Empty item - each item must be an object with fields (e.g. "- name: ...")`
+        : `Line ${line}: Item must be an object with fields, not ${JSON.stringify(toJsonValue(item))}`);
+    });
+    return valid;
+  }
+
+  /**
+   * js-yaml rolls impossible dates over (2024-02-30 loads as March 1st). Put
+   * the source text back for those, so nodes show what was written and the
+   * schema check flags it.
+   */
+  private restoreInvalidDates(parsed: any[]): void {
+    parsed.forEach((item, index) => {
+      for (const [key, value] of Object.entries(item)) {
+        if (!(value instanceof Date)) continue;
+        const text = this.fieldSource(index, key);
+        if (text !== null && !isCalendarDate(text)) item[key] = text;
+      }
+    });
+  }
+
+  /**
+   * Check root and parent references for both the name/supervisor and
+   * id/parentId formats. Runs after the nodes are resolved.
+   */
+  private validateStructure(parsed: any[]): void {
+    const content = this.source;
+
+    // Detect which format is being used: id/parentId or name/supervisor
+    // If any item has a name but no 'id', treat as name-based format
+    const hasNameField = parsed.some((item: any) => item[this.nameField] !== undefined);
+    const hasIdField = parsed.some((item: any) => item.id !== undefined);
+    const usesNameFormat = hasNameField && !hasIdField;
+
+    if (usesNameFormat) {
+      // Validate name/supervisor format, resolving supervisors the way the
+      // nodes were built: against the items with their generated ids
+      const resolveSupervisor = createSupervisorResolver(this.nodes, this.nameField);
+
+      // Identify root nodes: nodes with no supervisor OR supervisor that doesn't match anyone
+      // Root nodes are allowed - their supervisor field is informational (e.g., "Board of Directors")
+      const rootIndexes = indexesWhere(parsed, (item: any) => {
+        const supervisor = this.getSupervisor(item);
+        return !supervisor || !resolveSupervisor(supervisor);
+      });
+
+      // Mark all root nodes after the first as errors
+      for (const index of rootIndexes.slice(1)) {
+        const { from, to } = this.fieldRange(index, this.nameField);
+        this.addExtraRootDiagnostic(from, to, 'only one node can have no supervisor', describeItem(parsed[index], this.nameField));
+      }
+
+      // Note: We don't flag "invalid supervisor" errors for name-based format
+      // because a supervisor that doesn't match any name is treated as a root node
+      // (e.g., "Board of Directors" is a valid supervisor for the CEO even though
+      // there's no person with that name in the org)
+      return;
+    }
+
+    // Validate id/parentId format (or mixed format with both id and supervisor)
+    // Build set of valid IDs: explicit IDs + emails (as potential auto-generated IDs)
+    const nodeIds = new Set<string>();
+    for (const item of parsed) {
+      if (item.id !== undefined && item.id !== null) {
+        nodeIds.add(String(item.id));
+      }
+      // Also add email as a valid ID (since it can be auto-generated)
+      if (item.email) {
+        nodeIds.add(String(item.email).toLowerCase());
+      }
+    }
+
+    // Skip multiple roots check when using supervisor-based resolution
+    // (nodes without parentId will have it resolved from supervisor field)
+    const hasSupervisorFields = parsed.some((item: any) =>
+      this.supervisorFields.some(field => item[field] !== undefined)
+    );
+
+    if (!hasSupervisorFields) {
+      // Only check for multiple roots if not using supervisor-based resolution
+      const rootIndexes = indexesWhere(parsed, (item: any) =>
+        item.parentId === null || item.parentId === undefined
+      );
+
+      // Mark all root nodes after the first as errors: their `parentId: null`, else their id
+      for (const index of rootIndexes.slice(1)) {
+        const item = parsed[index];
+        const { from, to } = this.fieldRange(index, item.parentId === null ? 'parentId' : 'id');
+        this.addExtraRootDiagnostic(from, to, 'only one node can have parentId: null', `node id: ${item.id}`);
+      }
+    }
+
+    // Check for missing/invalid parentId references (only if explicitly set)
+    parsed.forEach((item: any, index: number) => {
+      const parentId = item.parentId;
+      // parentId should be null for root, or reference an existing node (by id or email)
+      if (parentId !== null && parentId !== undefined &&
+          !nodeIds.has(String(parentId)) && !nodeIds.has(String(parentId).toLowerCase())) {
+        const { from, to } = this.fieldRange(index, 'parentId');
+        this.addDiagnostic(from, to, 'error',
+          `Line ${lineNumberAt(content, from)}: Invalid parentId "${parentId}" - no node with this id exists`);
+      }
+    });
+  }
+
+  /**
+   * Flag duplicate ids, duplicate emails that can't become generated ids, and
+   * supervisor names shared by several people (which resolve to the last of
+   * them). Supervisors can be referenced by email or id to disambiguate.
+   */
+  private checkDuplicates(parsed: any[]): void {
+    const firstWithId = new Map<string, number>();
+    parsed.forEach((item, index) => {
+      if (item.id === undefined || item.id === null) return;
+      const id = String(item.id);
+      const first = firstWithId.get(id);
+      if (first === undefined) {
+        firstWithId.set(id, index);
+        return;
+      }
+      const { from, to } = this.fieldRange(index, 'id');
+      this.addDiagnostic(from, to, 'error',
+        `Line ${lineNumberAt(this.source, from)}: Duplicate id "${id}" - already used on line ${this.itemLine(first)}`);
+    });
+
+    // Items without an id use their email as one, unless it is already taken
+    const takenIds = new Map<string, number>(firstWithId);
+    parsed.forEach((item, index) => {
+      if ((item.id !== undefined && item.id !== null) || !item.email) return;
+      const email = String(item.email).toLowerCase();
+      const first = takenIds.get(email);
+      if (first === undefined) {
+        takenIds.set(email, index);
+        return;
+      }
+      const { from, to } = this.fieldRange(index, 'email');
+      this.addDiagnostic(from, to, 'warning',
+        `Line ${lineNumberAt(this.source, from)}: Duplicate email "${email}" - already the id of the node on line ${this.itemLine(first)}, so this node gets a generated id`);
+    });
+
+    const resolveSupervisor = createSupervisorResolver(this.nodes, this.nameField);
+    parsed.forEach((item, index) => {
+      if (item.parentId !== undefined) return;
+      for (const field of this.supervisorFields) {
+        if (!item[field]) continue;
+        const match = resolveSupervisor(item[field]);
+        if (!match) continue;
+        if (match.candidates.length > 1) {
+          const lines = match.candidates.map(candidate => this.itemLine(candidate)).join(', ');
+          const { from, to } = this.fieldRange(index, field);
+          this.addDiagnostic(from, to, 'warning',
+            `Line ${lineNumberAt(this.source, from)}: Ambiguous supervisor "${item[field]}" - ${match.candidates.length} people share this ${match.matchedBy} (lines ${lines})` +
+            (match.matchedBy === 'name' ? '; use their email or id instead' : ''));
+        }
+        break;
+      }
+    });
+  }
+
+  /**
+   * Find reporting cycles (A reports to B, B reports to A) in the resolved
+   * nodes, covering both parentId and supervisor-name links. Every item in a
+   * cycle gets an error on the line that links it to its parent.
+   */
+  private detectCycles(): OrgNode[][] {
+    const byId = new Map(this.nodes.map(node => [String(node.id), node]));
+    const indexOf = new Map(this.nodes.map((node, index) => [node, index]));
+    const done = new Set<OrgNode>();
+    const cycles: OrgNode[][] = [];
+
+    for (const start of this.nodes) {
+      const path: OrgNode[] = [];
+      let current: OrgNode | undefined = start;
+      while (current && !done.has(current) && !path.includes(current)) {
+        path.push(current);
+        current = this.parentOf(current, byId);
+      }
+      if (current && path.includes(current)) {
+        const cycle = path.slice(path.indexOf(current));
+        // Start each cycle at its first item in the document
+        const first = cycle.reduce((a, b) => (indexOf.get(b)! < indexOf.get(a)! ? b : a));
+        cycles.push([...cycle.slice(cycle.indexOf(first)), ...cycle.slice(0, cycle.indexOf(first))]);
+      }
+      path.forEach(node => done.add(node));
+    }
+
+    for (const cycle of cycles) {
+      cycle.forEach((node, position) => {
+        const index = indexOf.get(node)!;
+        const item = this.items![index];
+        const linkField = item.parentId !== undefined && item.parentId !== null
+          ? 'parentId'
+          : this.supervisorFields.find(field => item[field]) ?? 'parentId';
+        const { from, to } = this.fieldRange(index, linkField);
+        const names = [...cycle.slice(position), ...cycle.slice(0, position), node]
+          .map(member => String(member[this.nameField] ?? member.id));
+        const message = cycle.length === 1
+          ? `${names[0]} reports to itself`
+          : `Reporting cycle: ${names.join(' → ')}`;
+        this.addDiagnostic(from, to, 'error', `Line ${lineNumberAt(this.source, from)}: ${message}`);
+      });
+    }
+    return cycles;
+  }
+
+  /** Nodes by id and each node's direct reports, built on first use */
+  private reportIndex(): { byId: Map<string, OrgNode>; reports: Map<OrgNode, OrgNode[]> } {
+    if (!this.reportIndexCache) {
+      const byId = new Map(this.nodes.map(node => [String(node.id), node]));
+      const reports = new Map<OrgNode, OrgNode[]>();
+      for (const node of this.nodes) {
+        const parent = this.parentOf(node, byId);
+        if (!parent) continue;
+        const siblings = reports.get(parent);
+        if (siblings) siblings.push(node);
+        else reports.set(parent, [node]);
+      }
+      this.reportIndexCache = { byId, reports };
+    }
+    return this.reportIndexCache;
+  }
+
+  /** A node's parent among the resolved nodes (parentIds may also be emails) */
+  private parentOf(node: OrgNode, byId: Map<string, OrgNode>): OrgNode | undefined {
+    if (node.parentId === null || node.parentId === undefined || node.parentId === '') return undefined;
+    return byId.get(String(node.parentId)) ?? byId.get(String(node.parentId).toLowerCase());
+  }
+
+  /**
+   * Flag a root after the first. Forests expect several roots, so there it is
+   * only an informational notice.
+   */
+  private addExtraRootDiagnostic(from: number, to: number, rule: string, node: string): void {
+    const line = lineNumberAt(this.source, from);
+    if (this.forest) {
+      const placement = this.forest === 'synthetic-root' ? 'placed under the synthetic root' : 'drawn as a separate tree';
+      this.addDiagnostic(from, to, 'info', `Line ${line}: Additional root node - ${placement} (${node})`);
+    } else {
+      this.addDiagnostic(from, to, 'error', `Line ${line}: Multiple root nodes detected - ${rule} (${node})`);
+    }
+  }
+
+  /**
+   * Resolve dotted-line fields (`dotted_line: [name]` in the schema) to
+   * connections. Values are matched case-insensitively against the listed
+   * fields of other nodes, then against ids; unknown references are warnings.
+   */
+  private resolveConnections(): OrgConnection[] {
+    const dottedFields = Object.entries(this.schema).filter(([, field]) => field.dottedLine);
+    const connections: OrgConnection[] = [];
+    if (dottedFields.length === 0) return connections;
+
+    const findNode = (reference: string, matchFields: string[]): OrgNode | undefined => {
+      const normalized = reference.toLowerCase();
+      return this.nodes.find(node => matchFields.some(field =>
+        node[field] !== undefined && node[field] !== null && String(node[field]).toLowerCase() === normalized
+      )) ?? this.nodes.find(node => String(node.id) === reference);
+    };
+
+    this.nodes.forEach((node, index) => {
+      for (const [field, fieldSchema] of dottedFields) {
+        const value = node[field];
+        if (value === undefined || value === null || value === '') continue;
+
+        const matchFields = fieldSchema.dottedLine!.length > 0 ? fieldSchema.dottedLine! : [this.nameField];
+        for (const reference of (Array.isArray(value) ? value : [value]).map(String)) {
+          const target = findNode(reference, matchFields);
+          if (!target) {
+            const { from, to } = this.fieldRange(index, field);
+            this.addDiagnostic(from, to, 'warning',
+              `Line ${lineNumberAt(this.source, from)}: Unknown ${field} reference "${reference}" - no node with ${matchFields.join(' or ')} "${reference}"`);
+          } else if (target !== node) {
+            connections.push({ from: target.id, to: node.id, label: humanizeField(field), field });
+          }
+        }
+      }
+    });
+    return connections;
+  }
+
+  /**
+   * Check every item against the schema: required fields that are missing or
+   * empty, values of the wrong type and, with `options.strictSchema`, fields
+   * the schema doesn't declare. Violations are warnings unless the field is
+   * marked `error`.
+   */
+  private validateSchema(parsed: any[]): void {
+    const fields = Object.entries(this.schema).filter(([, field]) => !field.aliasOf && !field.dottedLine);
+    if (fields.length === 0) return;
+    const known = new Set(['id', 'parentId', '_card', this.nameField, ...this.supervisorFields, ...Object.keys(this.schema)]);
+    const patterns = this.compilePatterns(fields);
+
+    parsed.forEach((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) return;
+
+      for (const [name, field] of fields) {
+        const severity = field.severity ?? 'warning';
+        const key = [name, ...(field.aliases ?? [])].find(k => !isEmptyValue(item[k]));
+
+        if (key === undefined) {
+          if (field.required && !field.missing && field.default === undefined) {
+            const { from, to } = this.itemHeadRange(index);
+            this.addDiagnostic(from, to, severity,
+              `Line ${lineNumberAt(this.source, from)}: Missing required field "${name}" (${describeItem(item, this.nameField)})`);
+          }
+          continue;
+        }
+
+        const problem = checkFieldType(item[key], field) ?? checkFieldConstraints(item[key], field, patterns.get(name));
+        if (problem) {
+          const { from, to } = this.fieldRange(index, key);
+          this.addDiagnostic(from, to, severity, `Line ${lineNumberAt(this.source, from)}: Field "${key}" ${problem}`);
+        }
+      }
+
+      if (this.options.strictSchema) {
+        for (const key of Object.keys(item)) {
+          if (known.has(key)) continue;
+          const { from, to } = this.fieldRange(index, key);
+          this.addDiagnostic(from, to, 'warning', `Line ${lineNumberAt(this.source, from)}: Unknown field "${key}" - not declared in the schema`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Read the `cards:` section. Each entry is a template list, or
+   * `{ template, when, depth }`; entries without a template are flagged on
+   * their front matter line and skipped.
+   */
+  private parseCards(raw: unknown): CardTemplates | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      const { from, to } = this.frontMatterLine('cards') ?? { from: 0, to: 0 };
+      this.addDiagnostic(from, to, 'warning',
+        `Line ${lineNumberAt(this.source, from)}: "cards" should map template names to templates`);
+      return undefined;
+    }
+
+    const cards: CardTemplates = {};
+    for (const [name, entry] of Object.entries(raw as Record<string, any>)) {
+      if (Array.isArray(entry)) {
+        cards[name] = { template: entry };
+      } else if (entry && typeof entry === 'object' && Array.isArray(entry.template)) {
+        cards[name] = { template: entry.template, when: entry.when ?? undefined, depth: entry.depth ?? undefined };
+      } else {
+        const { from, to } = this.frontMatterLine(name) ?? { from: 0, to: 0 };
+        this.addDiagnostic(from, to, 'warning',
+          `Line ${lineNumberAt(this.source, from)}: Card template "${name}" needs a "template" list`);
+      }
+    }
+    return cards;
+  }
+
+  /** Flag `_card` values that don't name a template in `cards:` */
+  private validateCardNames(parsed: any[]): void {
+    const names = Object.keys(this.cards ?? {});
+    parsed.forEach((item, index) => {
+      if (!item || typeof item !== 'object' || isEmptyValue(item._card)) return;
+      if (names.includes(String(item._card))) return;
+      const { from, to } = this.fieldRange(index, '_card');
+      this.addDiagnostic(from, to, 'warning', `Line ${lineNumberAt(this.source, from)}: Unknown card template "${item._card}"` +
+        (names.length > 0 ? ` - use ${names.join(', ')}` : ' - there is no "cards:" section'));
+    });
+  }
+
+  /**
+   * Compile the schema's `pattern:` constraints. Invalid regexes are flagged
+   * on their schema line and not enforced.
+   */
+  private compilePatterns(fields: [string, FieldSchema][]): Map<string, RegExp> {
+    const patterns = new Map<string, RegExp>();
+    for (const [name, field] of fields) {
+      if (field.pattern === undefined) continue;
+      try {
+        // Stateful flags would make test() alternate between matches
+        patterns.set(name, new RegExp(field.pattern, field.patternFlags?.replace(/[gy]/g, '')));
+      } catch (error) {
+        const { from, to } = this.frontMatterLine(name) ?? { from: 0, to: 0 };
+        this.addDiagnostic(from, to, 'warning',
+          `Line ${lineNumberAt(this.source, from)}: Invalid pattern for field "${name}" - ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return patterns;
+  }
+
+  /** Fill in `default:` values for schema fields a node leaves out */
+  private applyDefaults(nodes: OrgNode[]): OrgNode[] {
+    const defaults = Object.entries(this.schema).filter(([, field]) => !field.aliasOf && field.default !== undefined);
+    if (defaults.length === 0) return nodes;
+
+    return nodes.map(node => {
+      const missing = defaults.filter(([name, field]) => [name, ...(field.aliases ?? [])].every(k => isEmptyValue(node[k])));
+      if (missing.length === 0) return node;
+      const filled: OrgNode = { ...node };
+      missing.forEach(([name, field]) => { filled[name] = field.default; });
+      return filled;
+    });
+  }
+
+  /**
+   * Range of an item's first line, used for problems with the item as a
+   * whole. Stops at the end of the item, for items written on one line.
+   */
+  private itemHeadRange(index: number): { from: number; to: number } {
+    const { from, to } = this.itemRange(index);
+    const lineEnd = this.source.indexOf('\n', from);
+    return { from, to: lineEnd === -1 ? to : Math.min(lineEnd, to) };
+  }
+
+  /**
+   * Source range of a list entry of any kind: its value, or its whole line
+   * when the value is empty (a bare `-`).
+   */
+  private entryRange(index: number): { from: number; to: number } {
+    const entry = this.dataSequence()?.items[index];
+    const range = isNode(entry) ? entry.range : undefined;
+    if (!range) return { from: this.dataOffset, to: this.dataOffset };
+    if (range[0] < range[1]) return { from: this.dataOffset + range[0], to: this.dataOffset + range[1] };
+
+    const offset = this.dataOffset + range[0];
+    const lineEnd = this.source.indexOf('\n', offset);
+    return { from: this.source.lastIndexOf('\n', offset - 1) + 1, to: lineEnd === -1 ? this.source.length : lineEnd };
+  }
+
+  /**
+   * Source range of an item's field (or the whole item when the field is
+   * omitted or missing), located with the `yaml` parser's node ranges.
+   */
+  private fieldRange(index: number, field?: string): { from: number; to: number } {
+    const item = this.dataSequence()?.items[index];
+    if (!isMap(item) || !item.range) {
+      return { from: this.dataOffset, to: this.dataOffset };
+    }
+
+    const pair = field === undefined ? undefined
+      : item.items.find(p => isScalar(p.key) && p.key.value === field) as Pair<Scalar, Scalar> | undefined;
+    const [from, to] = pair?.key?.range
+      ? [pair.key.range[0], pair.value?.range?.[1] ?? pair.key.range[1]]
+      : [item.range[0], item.range[1]];
+    return { from: this.dataOffset + from, to: this.dataOffset + this.data.slice(0, to).replace(/\s+$/, '').length };
+  }
+
+  /** Source text of a field's scalar value, or null when it can't be located */
+  private fieldSource(index: number, field: string): string | null {
+    const item = this.dataSequence()?.items[index];
+    if (!isMap(item)) return null;
+    const pair = item.items.find(p => isScalar(p.key) && p.key.value === field);
+    return pair && isScalar(pair.value) && typeof pair.value.source === 'string' ? pair.value.source : null;
+  }
+
+  /** The data section's item sequence with source ranges, or null when it isn't a list */
+  private dataSequence(): YAMLSeq | null {
+    // Parsed once on first use; documents with many diagnostics locate lots of fields
+    if (!this.dataTree) this.dataTree = parseDocument(this.data);
+    const contents = this.dataTree.contents;
+    if (isSeq(contents)) return contents;
+    // JSON objects keep their items under `data`
+    const data = isMap(contents) ? contents.get('data', true) : null;
+    return isSeq(data) ? data : null;
+  }
+
+  /** Get supervisor value from any of the alias fields */
+  private getSupervisor(item: any): string | undefined {
+    for (const field of this.supervisorFields) {
+      if (item[field]) return item[field];
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Split the source at the `---` delimiters. Offsets point at the first
+ * character of each trimmed section so parser marks can be mapped back.
+ */
+export function splitSections(content: string): SourceSections {
+  if (content.startsWith('---')) {
+    const parts = content.split('---');
+    if (parts.length >= 3) {
+      const rawData = parts.slice(2).join('---');
+      const dataStart = 3 + parts[1].length + 3;
+      return {
+        frontMatter: parts[1].trim(),
+        frontMatterOffset: 3 + (leadingWhitespace(parts[1])),
+        data: rawData.trim(),
+        dataOffset: dataStart + (leadingWhitespace(rawData)),
+      };
+    }
+  }
+  return { frontMatter: null, frontMatterOffset: 0, data: content, dataOffset: 0 };
+}
+
+const SCHEMA_MODIFIERS = ['required', 'optional', 'missing', 'error', 'warning', 'warn', 'html'];
+
+/**
+ * Parse the `schema:` section. Constraints that can't be read are skipped
+ * and passed to `onProblem` with the field they belong to.
+ */
+function parseSchema(
+  schema: unknown,
+  onProblem: (field: string, constraint: string, problem: string) => void
+): SchemaDefinition {
+  const schemaDef: SchemaDefinition = {};
+  if (!schema || typeof schema !== 'object') return schemaDef;
+
+  for (const [fieldName, fieldDef] of Object.entries(schema)) {
+    // YAML reads the bare `[ supervisor | leader ]` alias form as a one-item list
+    const isBracketAliases = Array.isArray(fieldDef) && fieldDef.length === 1 && String(fieldDef[0]).includes('|');
+    if (typeof fieldDef === 'string' || isBracketAliases) {
+      const fieldSchema = parseSchemaField(isBracketAliases ? `[ ${fieldDef[0]} ]` : fieldDef as string,
+        (constraint, problem) => onProblem(fieldName, constraint, problem));
+      schemaDef[fieldName] = fieldSchema;
+
+      // If this field has aliases, also add the aliases to schema
+      if (fieldSchema.aliases && fieldSchema.aliases.length > 0) {
+        for (const alias of fieldSchema.aliases) {
+          schemaDef[alias] = { ...fieldSchema, aliases: [fieldName], aliasOf: fieldName };
+        }
+      }
+    } else if (Array.isArray(fieldDef)) {
+      // Dotted-line field: `dotted_line: [name]` lists the fields its values match
+      schemaDef[fieldName] = { type: 'string', required: false, missing: false, dottedLine: fieldDef.map(String) };
+    }
+  }
+  return schemaDef;
+}
+
+/**
+ * Parse a schema field definition string.
+ *
+ * Supported formats:
+ *   1. Basic: "string | required"
+ *   2. Bracket aliases: "[ supervisor | leader | manager ] string | optional"
+ *   3. Alias keyword: "string | optional | alias: leader, manager, reports_to"
+ *   4. Aliases array: "string | optional | aliases[leader, manager]"
+ *   5. Enum: "enum[Engineering, Sales] | required"
+ *   6. Constraints: "string | pattern: /^[A-Z]{2}-\d+$/", "number | min: 0 | max: 120"
+ *   7. Default: "enum[Remote, Office] | default: Office"
+ *
+ * Types: string, number, boolean, email, date, url, phone, array, object and
+ * enum[...]. An `error` or `warning` modifier sets the severity the linter
+ * uses for this field's schema violations.
+ *
+ * Examples:
+ *   - "string | required" -> type: string, required: true
+ *   - "string | optional" -> type: string, required: false
+ *   - "[ supervisor | leader | manager ]" -> aliases: ['leader', 'manager']
+ *   - "string | optional | alias: leader, manager" -> aliases: ['leader', 'manager']
+ *   - "string | optional | aliases[leader, manager]" -> aliases: ['leader', 'manager']
+ *   - "email | required | error" -> type: email, required: true, severity: error
+ *   - "number | min: 0 | default: 1" -> type: number, min: 0, default: 1
+ *
+ * Enum values and aliases may be quoted to include commas. Malformed `min`,
+ * `max` and `pattern` constraints are left out and reported to `onProblem`.
+ */
+export function parseSchemaField(
+  fieldDefinition: string,
+  onProblem?: (constraint: string, problem: string) => void
+): FieldSchema {
+  let aliases: string[] | undefined;
+  let workingDef = fieldDefinition;
+
+  // Check for bracket alias syntax: [ field1 | field2 | field3 ]
+  const bracketMatch = workingDef.match(/^\s*\[\s*(.+?)\s*\]\s*(.*)$/);
+  if (bracketMatch) {
+    const aliasesStr = bracketMatch[1];
+    workingDef = bracketMatch[2];
+
+    // Parse aliases (split by |)
+    const aliasParts = aliasesStr.split('|').map(p => p.trim()).filter(p => p);
+    aliases = aliasParts.slice(1); // First one is the primary field name
+  }
+
+  // Check for "alias:" or "aliases:" keyword syntax
+  // e.g., "string | optional | alias: leader, manager, reports_to"
+  const aliasKeywordMatch = workingDef.match(/\|\s*alias(?:es)?:\s*([^|]+)/i);
+  if (aliasKeywordMatch) {
+    const aliasStr = aliasKeywordMatch[1];
+    const parsedAliases = aliasStr.split(',').map(a => a.trim()).filter(a => a);
+    aliases = aliases ? [...aliases, ...parsedAliases] : parsedAliases;
+    // Remove the alias part from working definition
+    workingDef = workingDef.replace(/\|\s*alias(?:es)?:\s*[^|]+/i, '');
+  }
+
+  // Check for "aliases[...]" syntax
+  // e.g., "string | optional | aliases[leader, manager]"
+  const aliasArrayMatch = workingDef.match(/\|\s*aliases?\s*\[\s*([^\]]+)\s*\]/i);
+  if (aliasArrayMatch) {
+    const aliasStr = aliasArrayMatch[1];
+    // Handle both quoted and unquoted values
+    const parsedAliases = splitQuotedList(aliasStr);
+    aliases = aliases ? [...aliases, ...parsedAliases] : parsedAliases;
+    // Remove the alias part from working definition
+    workingDef = workingDef.replace(/\|\s*aliases?\s*\[[^\]]+\]/i, '');
+  }
+
+  // Check for "pattern: /regex/flags" before splitting, as the regex may contain "|"
+  let pattern: string | undefined;
+  let patternFlags: string | undefined;
+  const patternMatch = workingDef.match(/\|\s*pattern:\s*\/((?:\\.|\[(?:\\.|[^\]\\])*\]|[^/\\[])+)\/([a-z]*)/i);
+  if (patternMatch) {
+    pattern = patternMatch[1];
+    patternFlags = patternMatch[2] || undefined;
+    workingDef = workingDef.replace(patternMatch[0], '');
+  }
+
+  // Parse remaining parts for type, required, etc.
+  const allParts = workingDef.split('|').map(p => p.trim()).filter(p => p);
+  // "min: 0", "max: 120" and "default: x" constraints
+  const constraints: Record<string, string> = {};
+  // (a `pattern:` left over here isn't written as /regex/)
+  const parts = allParts.filter(p => {
+    const constraintMatch = p.match(/^(min|max|default|pattern)\s*:\s*(.*)$/i);
+    if (constraintMatch) constraints[constraintMatch[1].toLowerCase()] = constraintMatch[2].trim();
+    return !constraintMatch;
+  });
+  if (constraints.pattern !== undefined) {
+    onProblem?.('pattern', `write it as /regex/ or /regex/flags, got ${JSON.stringify(constraints.pattern)}`);
+  }
+  const bound = (name: 'min' | 'max') => {
+    const value = parseBound(constraints[name]);
+    if (value === undefined && constraints[name] !== undefined) {
+      onProblem?.(name, `should be a number, got ${JSON.stringify(constraints[name])}`);
+    }
+    return value;
+  };
+  const has = (...modifiers: string[]) => parts.some(p => modifiers.includes(p.toLowerCase()));
+  let type = parts.find(p => !SCHEMA_MODIFIERS.includes(p.toLowerCase())) || 'string';
+  let values: string[] | undefined;
+
+  const enumMatch = type.match(/^enum\s*\[(.*)\]$/i);
+  if (enumMatch) {
+    type = 'enum';
+    values = splitQuotedList(enumMatch[1]);
+  }
+
+  return {
+    type,
+    required: has('required'),
+    missing: has('missing'),
+    aliases: aliases && aliases.length > 0 ? aliases : undefined,
+    values,
+    severity: has('error') ? 'error' : has('warning', 'warn') ? 'warning' : undefined,
+    pattern,
+    patternFlags,
+    min: bound('min'),
+    max: bound('max'),
+    default: constraints.default !== undefined ? parseDefault(constraints.default, type) : undefined,
+    html: has('html') || undefined,
+  };
+}
+
+/** Split a comma-separated list; quoted entries keep their commas and lose their quotes */
+function splitQuotedList(text: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if ((char === '"' || char === "'") && current.trim() === '') {
+      quote = char;
+      current = '';
+    } else if (char === ',') {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values.filter(value => value);
+}
+
+function parseBound(value: string | undefined): number | undefined {
+  const bound = value === undefined || value === '' ? NaN : Number(value);
+  return isFinite(bound) ? bound : undefined;
+}
+
+/** Read a `default:` value as the field's type; quotes keep it a string */
+function parseDefault(value: string, type: string): string | number | boolean {
+  const quoted = value.match(/^(["'])(.*)\1$/);
+  if (quoted) return quoted[2];
+  if (type === 'number' && value !== '' && isFinite(Number(value))) return Number(value);
+  if (type === 'boolean' && /^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  return value;
+}
+
+/** Copy a parsed value for JSON output, writing dates as `YYYY-MM-DD` (or a full timestamp when they have a time) */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) copy[key] = toJsonValue(entry);
+    return copy;
+  }
+  return value;
+}
+
+function indexesWhere<T>(items: T[], predicate: (item: T) => boolean): number[] {
+  return items.map((item, index) => (predicate(item) ? index : -1)).filter(index => index !== -1);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** Short label for an item in diagnostics: its name, else its id */
+function describeItem(item: any, nameField: string): string {
+  if (!isEmptyValue(item[nameField])) return `${nameField}: ${item[nameField]}`;
+  return isEmptyValue(item.id) ? 'unnamed item' : `id: ${item.id}`;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+/** Whether the YYYY-MM-DD part of a date is a real day (no February 30th or month 13) */
+function isCalendarDate(text: string): boolean {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Absolute URLs with a scheme, or site-relative paths
+const URL_PATTERN = /^(?:[a-z][a-z\d+.-]*:|\/|\.{1,2}\/)\S*$/i;
+/** Relative image paths such as `photos/jane.jpg` */
+const IMAGE_PATH_PATTERN = /^[^\s:]+\.(?:png|gif|jpe?g|webp|avif|svg)$/i;
+const PHONE_PATTERN = /^\+?[\d\s()./-]+(?:\s*(?:x|ext\.?)\s*\d+)?$/i;
+
+/**
+ * Check a non-empty value against its field's type. Returns the rest of a
+ * diagnostic message ("should be a number, got ...") or null when it fits.
+ * Unknown types are not checked.
+ */
+function checkFieldType(value: unknown, field: FieldSchema): string | null {
+  const shown = Array.isArray(value) ? 'a list'
+    : value instanceof Date ? `"${value.toISOString().slice(0, 10)}"`
+    : typeof value === 'object' ? 'a map'
+    : JSON.stringify(value);
+  const isScalar = value instanceof Date || typeof value !== 'object';
+  const text = String(value);
+
+  switch (field.type.toLowerCase()) {
+    case 'string':
+      return isScalar ? null : `should be text, got ${shown}`;
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? null : `should be a number, got ${shown}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `should be true or false, got ${shown}`;
+    case 'email':
+      return typeof value === 'string' && EMAIL_PATTERN.test(value) ? null : `should be an email address, got ${shown}`;
+    case 'date':
+      // js-yaml loads unquoted YYYY-MM-DD values as Date objects; impossible ones stay text
+      return value instanceof Date || (typeof value === 'string' && DATE_PATTERN.test(value) && isCalendarDate(value) && !isNaN(Date.parse(value)))
+        ? null : `should be a date (YYYY-MM-DD), got ${shown}`;
+    case 'url':
+      return typeof value === 'string' && URL_PATTERN.test(value) ? null : `should be a URL, got ${shown}`;
+    case 'photo':
+      return typeof value === 'string' && (URL_PATTERN.test(value) || IMAGE_PATH_PATTERN.test(value))
+        ? null : `should be an image URL or data URI, got ${shown}`;
+    case 'phone':
+    case 'tel':
+      return (typeof value === 'string' || typeof value === 'number') && PHONE_PATTERN.test(text) && text.replace(/\D/g, '').length >= 7
+        ? null : `should be a phone number, got ${shown}`;
+    case 'enum':
+      return isScalar && field.values?.includes(text) ? null : `should be one of ${(field.values ?? []).join(', ')}, got ${shown}`;
+    case 'array':
+      return Array.isArray(value) ? null : `should be a list, got ${shown}`;
+    case 'object':
+      return !isScalar && !Array.isArray(value) ? null : `should be a map, got ${shown}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a value that has the right type against its field's `pattern`, `min`
+ * and `max` constraints. Returns the rest of a diagnostic message or null.
+ */
+function checkFieldConstraints(value: unknown, field: FieldSchema, pattern: RegExp | undefined): string | null {
+  if (pattern && (value instanceof Date || typeof value !== 'object')) {
+    const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    if (!pattern.test(text)) return `should match /${field.pattern}/${field.patternFlags ?? ''}, got ${JSON.stringify(text)}`;
+  }
+  if (typeof value === 'number') {
+    if (field.min !== undefined && value < field.min) return `should be at least ${field.min}, got ${value}`;
+    if (field.max !== undefined && value > field.max) return `should be at most ${field.max}, got ${value}`;
+  }
+  return null;
+}
+
+/**
+ * Resolve missing parentId values by looking up supervisor names.
+ * This allows YAML data to omit parentId if a supervisor field contains
+ * the name of another node, or its email or id when names are shared.
+ * Also auto-generates missing id values.
+ *
+ * Supports multiple supervisor field aliases configurable via schema:
+ *   supervisor: [ supervisor | leader | manager | reports_to ]
+ * Or via .supervisorLookup() fluent API.
+ */
+export function resolveMissingParentIds(
+  data: any[],
+  supervisorFields: string[] = DEFAULT_SUPERVISOR_FIELDS,
+  nameField: string = 'name'
+): OrgNode[] {
+  // First pass: auto-generate missing ids
+  // Detect if existing IDs are numeric or string-based (UUIDs, etc.)
+  let hasNumericIds = false;
+  let maxNumericId = 0;
+  const existingIds = new Set<string>();
+
+  for (const item of data) {
+    if (item.id !== undefined && item.id !== null) {
+      existingIds.add(String(item.id));
+      const numId = typeof item.id === 'number' ? item.id : parseInt(String(item.id), 10);
+      if (!isNaN(numId) && String(numId) === String(item.id)) {
+        hasNumericIds = true;
+        if (numId > maxNumericId) {
+          maxNumericId = numId;
+        }
+      }
+    }
+  }
+
+  // Helper to generate a unique ID
+  let autoIdCounter = maxNumericId;
+  const generateId = (item: any): string | number => {
+    // Prefer email as ID if available
+    if (item.email) {
+      const emailId = String(item.email).toLowerCase();
+      if (!existingIds.has(emailId)) {
+        existingIds.add(emailId);
+        return emailId;
+      }
+    }
+
+    if (hasNumericIds || existingIds.size === 0) {
+      // Use numeric IDs if existing IDs are numeric or if no IDs exist
+      autoIdCounter++;
+      return autoIdCounter;
+    } else {
+      // Generate a simple unique string ID (pseudo-UUID style)
+      let newId: string;
+      do {
+        newId = `auto-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      } while (existingIds.has(newId));
+      existingIds.add(newId);
+      return newId;
+    }
+  };
+
+  // Assign ids to items that don't have them
+  const dataWithIds = data.map((item) => {
+    if (item.id === undefined || item.id === null) {
+      return { ...item, id: generateId(item), _autoGeneratedId: true };
+    }
+    return item;
+  });
+
+  const resolveSupervisor = createSupervisorResolver(dataWithIds, nameField);
+
+  // Process each item and resolve missing parentId
+  return dataWithIds.map(item => {
+    // Skip if parentId is already set (including explicit null for root nodes)
+    if (item.parentId !== undefined) {
+      return item;
+    }
+
+    // Try to resolve parentId from supervisor field aliases
+    for (const field of supervisorFields) {
+      const supervisor = item[field];
+      if (supervisor) {
+        const match = resolveSupervisor(supervisor);
+        if (match) {
+          // Return a new object with the resolved parentId
+          return { ...item, parentId: dataWithIds[match.index].id };
+        }
+      }
+    }
+
+    // No parentId and couldn't resolve from supervisor - treat as root node
+    return { ...item, parentId: null };
+  });
+}
+
+interface SupervisorMatch {
+  /** Index of the item the reference resolves to */
+  index: number;
+  /** Indexes of every item the reference could mean (more than one when ambiguous) */
+  candidates: number[];
+  /** Which field the reference matched */
+  matchedBy: 'name' | 'email' | 'id';
+}
+
+/**
+ * Build a lookup for supervisor references. A reference is matched
+ * case-insensitively against names, then emails, then exactly against ids.
+ * A name shared by several people only applies when no email or id matches,
+ * and then resolves to the last of them.
+ */
+function createSupervisorResolver(items: any[], nameField: string): (reference: unknown) => SupervisorMatch | undefined {
+  const byName = new Map<string, number[]>();
+  const byEmail = new Map<string, number[]>();
+  const byId = new Map<string, number[]>();
+  const add = (map: Map<string, number[]>, key: string, index: number) => {
+    const list = map.get(key);
+    if (list) list.push(index); else map.set(key, [index]);
+  };
+
+  items.forEach((item, index) => {
+    if (!item) return;
+    if (item[nameField]) add(byName, String(item[nameField]).toLowerCase(), index);
+    if (item.email) add(byEmail, String(item.email).toLowerCase(), index);
+    if (item.id !== undefined && item.id !== null) add(byId, String(item.id), index);
+  });
+
+  return (reference: unknown) => {
+    const key = String(reference).toLowerCase();
+    const names = byName.get(key) ?? [];
+    if (names.length === 1) return { index: names[0], candidates: names, matchedBy: 'name' };
+
+    const emails = byEmail.get(key);
+    if (emails) return { index: emails[0], candidates: emails, matchedBy: 'email' };
+    const ids = byId.get(String(reference));
+    if (ids) return { index: ids[0], candidates: ids, matchedBy: 'id' };
+
+    if (names.length > 1) return { index: names[names.length - 1], candidates: names, matchedBy: 'name' };
+    return undefined;
+  };
+}
+
+/**
+ * Escape special regex characters in a string for safe use in RegExp constructor.
+ */
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** "dotted_line" / "dottedLine" -> "Dotted line" */
+function humanizeField(field: string): string {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function leadingWhitespace(str: string): number {
+  return str.length - str.replace(/^\s+/, '').length;
+}
+
+/** 1-based line number of an offset in the source */
+function lineNumberAt(source: string, pos: number): number {
+  return source.substring(0, pos).split('\n').length;
+}
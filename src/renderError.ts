@@ -0,0 +1,127 @@
+/**
+ * Render errors - Structured explanations for chart render failures
+ *
+ * d3-org-chart and card templates throw plain errors; d3's stratify step
+ * reports problems as terse messages like "ambiguous: 3" or "missing: 7".
+ * describeRenderError turns them into a category, the offending node and the
+ * line of its item in the source, so the editor can explain why the chart
+ * did not update instead of leaving a stale canvas.
+ *
+ * Usage:
+ * ```typescript
+ * try {
+ *   chart.data(doc.nodes).render();
+ * } catch (error) {
+ *   const info = describeRenderError(error, doc);
+ *   console.error(`${info.title}: ${info.message} (line ${info.line})`);
+ * }
+ * ```
+ */
+
+import type { OrgDocument } from './orgDocument.js';
+
+export type RenderErrorCategory = 'duplicate-id' | 'missing-parent' | 'cycle' | 'multiple-roots' | 'template' | 'rejected-edit' | 'unknown';
+
+export interface RenderErrorInfo {
+  category: RenderErrorCategory;
+  /** Short human-readable title for the category */
+  title: string;
+  message: string;
+  /** Id of the node the error points at, when known */
+  nodeId?: string | number;
+  /** Display name of that node */
+  nodeName?: string;
+  /** 1-based source line of that node's item */
+  line?: number;
+  /** The original error */
+  error: unknown;
+}
+
+/** Thrown while rendering a node's card so the failing node can be reported */
+export class TemplateRenderError extends Error {
+  readonly nodeId: string | number;
+  readonly original: unknown;
+
+  constructor(nodeId: string | number, original: unknown) {
+    super(original instanceof Error ? original.message : String(original));
+    this.name = 'TemplateRenderError';
+    this.nodeId = nodeId;
+    this.original = original;
+  }
+}
+
+const TITLES: Record<RenderErrorCategory, string> = {
+  'duplicate-id': 'Duplicate id',
+  'missing-parent': 'Missing parent',
+  'cycle': 'Reporting cycle',
+  'multiple-roots': 'Multiple roots',
+  'template': 'Card template error',
+  'rejected-edit': 'Change not applied',
+  'unknown': 'Chart could not be rendered',
+};
+
+/**
+ * Classify an error thrown while rendering `doc` and locate the node it
+ * concerns.
+ */
+export function describeRenderError(error: unknown, doc: OrgDocument): RenderErrorInfo {
+  const raw = error instanceof Error ? error.message : String(error);
+  const nodes = doc.nodes;
+  let category: RenderErrorCategory = 'unknown';
+  let message = raw;
+  let index = -1;
+
+  if (error instanceof TemplateRenderError) {
+    category = 'template';
+    index = nodes.findIndex(node => String(node.id) === String(error.nodeId));
+    message = `Rendering this card failed: ${raw}`;
+  } else if (/^ambiguous: /.test(raw)) {
+    // A parentId matched several nodes sharing the same id
+    const id = raw.slice('ambiguous: '.length);
+    category = 'duplicate-id';
+    // Point at the second item using the id, not the original
+    const matches = nodes.map((node, i) => String(node.id) === id ? i : -1).filter(i => i !== -1);
+    index = matches.length > 1 ? matches[1] : matches[0] ?? -1;
+    message = `More than one node has the id "${id}", so its reports can't be placed`;
+  } else if (/^missing: /.test(raw)) {
+    const id = raw.slice('missing: '.length);
+    category = 'missing-parent';
+    index = nodes.findIndex(node => String(node.parentId) === id);
+    message = `No node has the id "${id}" referenced as a parent`;
+  } else if (raw === 'cycle') {
+    category = 'cycle';
+    index = doc.cycles.length > 0 ? nodes.indexOf(doc.cycles[0][0]) : -1;
+    message = 'Some nodes report to each other in a loop';
+  } else if (raw === 'multiple roots' || raw === 'no root') {
+    category = 'multiple-roots';
+    message = raw === 'no root' ? 'No node is at the top of the chart' : 'More than one node is at the top of the chart';
+  }
+
+  const node = index === -1 ? undefined : nodes[index];
+  return {
+    category,
+    title: TITLES[category],
+    message,
+    nodeId: node?.id,
+    nodeName: node ? String(node[doc.nameField] ?? node.id) : undefined,
+    line: index === -1 ? undefined : doc.itemLine(index),
+    error,
+  };
+}
+
+/**
+ * Explain a chart-side edit (a move, add or delete) that was refused, pointing
+ * at the item of the node it concerns, or at no node when `index` is -1.
+ */
+export function describeRejectedEdit(message: string, doc: OrgDocument, index: number): RenderErrorInfo {
+  const node = index === -1 ? undefined : doc.nodes[index];
+  return {
+    category: 'rejected-edit',
+    title: TITLES['rejected-edit'],
+    message,
+    nodeId: node?.id,
+    nodeName: node ? String(node[doc.nameField] ?? node.id) : undefined,
+    line: index === -1 ? undefined : doc.itemLine(index),
+    error: null,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Sanitize - Escaping and allow-list sanitizing for card HTML
+ *
+ * Cards, the details panel and search results are built as HTML strings from
+ * YAML values, and those values may come from other users. escapeHtml turns
+ * a value into text; sanitizeHtml parses markup in an inert template and
+ * keeps only allow-listed tags and attributes, dropping event handlers,
+ * scripts and `javascript:` URLs. Card templates are passed through
+ * sanitizeHtml, and values of fields marked `html` in the schema are the only
+ * ones inserted as markup rather than text.
+ *
+ * Usage:
+ * ```typescript
+ * const card = `<div class="name">${escapeHtml(node.name)}</div>${sanitizeHtml(node.bio)}`;
+ * ```
+ */
+
+/** Tags kept by sanitizeHtml; other elements are replaced by their content */
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i',
+  'img', 'li', 'mark', 'ol', 'p', 'pre', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody',
+  'td', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+/** Elements removed together with their content */
+const DROPPED_TAGS = new Set([
+  'embed', 'frame', 'frameset', 'iframe', 'link', 'meta', 'noscript', 'object', 'script', 'style',
+  'template', 'textarea', 'title',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'alt', 'aria-label', 'class', 'colspan', 'height', 'href', 'role', 'rowspan', 'src', 'style',
+  'target', 'title', 'width',
+]);
+
+/** URL schemes allowed in `href` and `src`; relative URLs have none */
+const SAFE_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+const SAFE_IMAGE_DATA_PATTERN = /^data:image\/(?:png|gif|jpe?g|webp|avif|svg\+xml);base64,[a-z0-9+/=\s]*$/i;
+const UNSAFE_STYLE_PATTERN = /expression\s*\(|javascript:|vbscript:|@import|behavior\s*:|-moz-binding/i;
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Escape a value for use as HTML text or a quoted attribute value */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+/** Whether `tag` is a tag name sanitizeHtml keeps */
+export function isAllowedTag(tag: string): boolean {
+  return ALLOWED_TAGS.has(tag.toLowerCase());
+}
+
+/**
+ * Remove everything but allow-listed tags and attributes from `html`.
+ * Disallowed elements are replaced by their (sanitized) content, except
+ * scripts, styles and embeds, which are dropped entirely.
+ */
+export function sanitizeHtml(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content);
+  return template.innerHTML;
+}
+
+function sanitizeChildren(parent: Node): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      parent.removeChild(child);
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag) || element.namespaceURI !== 'http://www.w3.org/1999/xhtml') {
+      parent.removeChild(element);
+      continue;
+    }
+
+    sanitizeChildren(element);
+    if (!ALLOWED_TAGS.has(tag)) {
+      while (element.firstChild) parent.insertBefore(element.firstChild, element);
+      parent.removeChild(element);
+      continue;
+    }
+    sanitizeAttributes(element);
+  }
+}
+
+function sanitizeAttributes(element: Element): void {
+  for (const { name, value } of Array.from(element.attributes)) {
+    const attribute = name.toLowerCase();
+    const safe = ALLOWED_ATTRIBUTES.has(attribute) && (
+      attribute === 'href' ? isSafeUrl(value)
+        : attribute === 'src' ? isSafeUrl(value) || SAFE_IMAGE_DATA_PATTERN.test(value.trim())
+        : attribute === 'style' ? !UNSAFE_STYLE_PATTERN.test(value)
+        : true
+    );
+    if (!safe) element.removeAttribute(name);
+  }
+
+  // Links opening a new tab must not get a handle on this page
+  if (element.tagName.toLowerCase() === 'a' && element.hasAttribute('target')) {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function isSafeUrl(url: string): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.replace(/[\u0000- ]/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+  return !scheme || SAFE_SCHEMES.includes(scheme[1].toLowerCase());
+}
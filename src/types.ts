@@ -0,0 +1,120 @@
+/**
+ * Shared type definitions used by the editor and the headless data model.
+ */
+
+import type { OrgDiagnostic } from './orgDocument.js';
+import type { RenderErrorInfo } from './renderError.js';
+
+export interface YChartOptions {
+  nodeWidth?: number;
+  nodeHeight?: number;
+  childrenMargin?: number;
+  compactMarginBetween?: number;
+  compactMarginPair?: number;
+  neighbourMargin?: number;
+  editorTheme?: 'light' | 'dark';
+  collapsible?: boolean;
+  bgPatternStyle?: 'dotted' | 'dashed';
+  patternColor?: string;
+  toolbarPosition?: 'topleft' | 'topright' | 'bottomleft' | 'bottomright' | 'topcenter' | 'bottomcenter';
+  toolbarOrientation?: 'horizontal' | 'vertical';
+  experimental?: boolean;
+  forest?: ForestMode;  // How several top-level nodes are drawn; unset, extra roots are errors
+  forestRoot?: Record<string, unknown>;  // Fields of the synthetic root used by `forest: synthetic-root`
+  strictSchema?: boolean;  // Flag item fields that the schema doesn't declare
+}
+
+/**
+ * Forest layouts for documents with several top-level nodes:
+ * - `side-by-side`: each tree is drawn next to the others
+ * - `synthetic-root`: all trees hang off a synthetic node built from `forestRoot`
+ */
+export type ForestMode = 'side-by-side' | 'synthetic-root';
+
+export interface FieldSchema {
+  type: string;
+  required: boolean;
+  missing: boolean;
+  aliases?: string[];  // Alternate field names that map to this field
+  aliasOf?: string;  // Set on alias entries: the field they stand in for
+  values?: string[];  // Allowed values of an `enum[...]` field
+  severity?: 'error' | 'warning';  // Severity of schema violations for this field (default warning)
+  pattern?: string;  // Source of a `pattern: /.../` constraint the value must match
+  patternFlags?: string;  // Flags of that pattern, e.g. `i`
+  min?: number;  // Smallest allowed value of a number field
+  max?: number;  // Largest allowed value of a number field
+  default?: string | number | boolean;  // Value used for nodes that leave the field out
+  html?: boolean;  // Values are markup (sanitized) rather than text in cards and the details panel
+  dottedLine?: string[];  // Dotted-line field: fields of other nodes its values are matched against
+}
+
+export interface SchemaDefinition {
+  [fieldName: string]: FieldSchema;
+}
+
+export interface CardElement {
+  [tagName: string]: string | CardConfig;
+}
+
+export interface CardConfig {
+  class?: string;
+  content?: string;
+  style?: string;
+  children?: CardElement[];
+  if?: string | boolean;  // Render only when this `$field$` has a value
+  unless?: string | boolean;  // Render only when this `$field$` is empty
+  each?: string;  // Repeat the element for every entry of this `$list$` field
+  src?: string;  // `photo` elements: image URL or data URI (default: the node's photo field)
+  name?: string;  // `photo` elements: name the initials are taken from (default: `$name$`)
+  size?: number;  // `photo` elements: diameter in pixels (default: 48)
+}
+
+/** A named template in `cards:` and the rule for the nodes it applies to */
+export interface CardTemplate {
+  template: CardElement[];
+  when?: Record<string, unknown>;  // Field values to match; a list matches any of its values
+  depth?: number | number[] | string;  // Depth in the chart (0 is the top); "2+" means 2 and deeper
+}
+
+export interface CardTemplates {
+  [name: string]: CardTemplate;
+}
+
+export interface FrontMatter {
+  options: YChartOptions;
+  schema: SchemaDefinition;
+  card?: CardElement[];
+  cards?: CardTemplates;
+  data: string;
+}
+
+export type YChartView = 'hierarchy' | 'force';
+
+/**
+ * Payloads for events emitted by YChartEditor, keyed by event name.
+ * Subscribe with `editor.on(name, handler)`.
+ */
+export interface YChartEventMap {
+  /** A node was selected in the chart (click, keyboard navigation or search) */
+  nodeSelect: { id: string | number; data: any };
+  /** The details panel was opened for a node */
+  nodeDetails: { data: any };
+  /** The editor content changed, either by typing or programmatically */
+  dataChange: { yaml: string };
+  /** The linter found errors in the current content */
+  parseError: { diagnostics: OrgDiagnostic[] };
+  /** Two nodes were swapped in swap mode */
+  swap: { node1: any; node2: any };
+  /** A node (and its subtree) was dragged onto a new parent in move mode */
+  move: { node: any; newParent: any };
+  /** The chart failed to render; the last good chart stays visible */
+  renderError: RenderErrorInfo;
+  /** The chart switched between the hierarchy and force graph views */
+  viewChange: { view: YChartView };
+  /** A node was expanded or collapsed */
+  expandCollapse: { id: string | number; data: any; expanded: boolean };
+}
+
+export type YChartEventName = keyof YChartEventMap;
+
+export type YChartEventHandler<K extends YChartEventName> = (payload: YChartEventMap[K]) => void;
@@ -0,0 +1,377 @@
+/**
+ * YamlPatch - Minimal-diff write-back for YChart documents
+ *
+ * Chart-driven changes (swap, move, inline edits) used to re-dump the whole
+ * document, losing comments, key order, quoting and the front matter's card
+ * template. YamlPatch instead locates the affected items in the data section
+ * with the `yaml` parser's source ranges and splices only their text, so the
+ * rest of the document stays byte-for-byte identical.
+ *
+ * Items are addressed by their index in the data sequence, which matches
+ * `OrgDocument.items` for the same source.
+ *
+ * JSON documents (a data array, or an object with a `data` array) have no
+ * comments or quoting to keep, so they are edited as values and written
+ * back as JSON with the source's indentation.
+ *
+ * Usage:
+ * ```typescript
+ * const updated = new YamlPatch(source)
+ *   .setField(3, 'parentId', 1, { after: 'id' })
+ *   .deleteField(3, 'supervisor')
+ *   .swapItems(1, 2)
+ *   .toString();
+ * ```
+ */
+
+import { Document, isCollection, isMap, isScalar, isSeq, parseDocument, type Pair, type Scalar, type YAMLMap, type YAMLSeq } from 'yaml';
+import { splitSections } from './orgDocument.js';
+
+export interface SetFieldOptions {
+  /** Insert a new key right after this key instead of at the end of the item */
+  after?: string;
+}
+
+interface JsonData {
+  root: unknown;
+  items: unknown[];
+  indent: string;
+}
+
+interface LocatedData {
+  seq: YAMLSeq | null;
+  /** Offset of the parsed data section within the full text */
+  offset: number;
+}
+
+export class YamlPatch {
+  private text: string;
+  /** Set for JSON sources, which are edited as values */
+  private json: JsonData | null;
+
+  constructor(source: string) {
+    this.text = source;
+    this.json = parseJsonData(source);
+  }
+
+  /** Number of items in the data sequence */
+  get itemCount(): number {
+    if (this.json) return this.json.items.length;
+    return this.locate().seq?.items.length ?? 0;
+  }
+
+  /**
+   * Set a field on an item. Existing values are replaced in place (keeping
+   * their quote style); new keys are added on their own line.
+   */
+  setField(index: number, key: string, value: unknown, options: SetFieldOptions = {}): this {
+    if (this.json) {
+      const item = this.jsonItem(index);
+      if (key in item || options.after === undefined || !(options.after in item)) {
+        item[key] = value;
+        return this;
+      }
+      // Rebuild the item so the new key follows `after`
+      const rebuilt: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(item)) {
+        rebuilt[k] = v;
+        if (k === options.after) rebuilt[key] = value;
+      }
+      this.json.items[index] = rebuilt;
+      return this;
+    }
+
+    const { item, offset } = this.itemAt(index);
+
+    if (!isMap(item) || item.flow) {
+      return this.rewriteItem(index, node => node.set(key, value));
+    }
+
+    const pair = findPair(item, key);
+    if (pair) {
+      const valueNode = pair.value as Scalar | YAMLMap | YAMLSeq | null;
+      if (!valueNode || !valueNode.range || valueNode.range[0] === valueNode.range[1]) {
+        // Key without a value (`key:`): write the value after the colon
+        const colon = this.text.indexOf(':', offset + keyEnd(pair));
+        return this.splice(colon + 1, colon + 1, ` ${stringifyValue(value)}`);
+      }
+      const start = offset + valueNode.range[0];
+      const end = this.trimEnd(offset + valueNode.range[1]);
+      return this.splice(start, end, stringifyValue(value, isScalar(valueNode) ? valueNode : undefined));
+    }
+
+    const anchor = (options.after !== undefined ? findPair(item, options.after) : undefined)
+      ?? (item.items[item.items.length - 1] as Pair | undefined);
+    if (!anchor) {
+      return this.rewriteItem(index, node => node.set(key, value));
+    }
+
+    const indent = ' '.repeat(this.columnOf(offset + item.range![0]));
+    const lineEnd = this.lineEnd(this.trimEnd(offset + pairEnd(anchor)));
+    const line = `${indent}${stringifyValue(key)}: ${stringifyValue(value)}`;
+    return lineEnd < this.text.length
+      ? this.splice(lineEnd + 1, lineEnd + 1, `${line}\n`)
+      : this.splice(lineEnd, lineEnd, `\n${line}`);
+  }
+
+  /** Remove a field from an item. Missing fields are ignored. */
+  deleteField(index: number, key: string): this {
+    if (this.json) {
+      delete this.jsonItem(index)[key];
+      return this;
+    }
+
+    const { item, offset } = this.itemAt(index);
+
+    if (!isMap(item) || item.flow) {
+      return this.rewriteItem(index, node => { node.delete(key); });
+    }
+
+    const position = item.items.findIndex(pair => keyOf(pair) === key);
+    if (position === -1) return this;
+
+    const pair = item.items[position] as Pair;
+    const keyStart = offset + (pair.key as Scalar).range![0];
+    const end = this.lineEnd(this.trimEnd(offset + pairEnd(pair)));
+
+    if (/^\s*$/.test(this.text.slice(this.lineStart(keyStart), keyStart))) {
+      // The key starts its own line: drop the whole line(s)
+      return this.splice(this.lineStart(keyStart), Math.min(end + 1, this.text.length), '');
+    }
+
+    // The key shares the line with the "- " indicator
+    const next = item.items[position + 1] as Pair | undefined;
+    if (!next) {
+      return this.splice(keyStart, end, '{}');
+    }
+    return this.splice(keyStart, offset + (next.key as Scalar).range![0], '');
+  }
+
+  /** Exchange the text of two items, leaving comments between them in place */
+  swapItems(a: number, b: number): this {
+    if (a === b) return this;
+    if (this.json) {
+      const [first, second] = [this.jsonItem(a), this.jsonItem(b)];
+      this.json.items[a] = second;
+      this.json.items[b] = first;
+      return this;
+    }
+    const first = this.itemAt(Math.min(a, b));
+    const second = this.itemAt(Math.max(a, b));
+
+    const firstStart = first.offset + first.item.range![0];
+    const firstEnd = this.trimEnd(first.offset + first.item.range![1]);
+    const secondStart = second.offset + second.item.range![0];
+    const secondEnd = this.trimEnd(second.offset + second.item.range![1]);
+
+    const firstText = this.text.slice(firstStart, firstEnd);
+    const secondText = this.text.slice(secondStart, secondEnd);
+
+    // Splice the later item first so earlier offsets stay valid
+    this.splice(secondStart, secondEnd, firstText);
+    return this.splice(firstStart, firstEnd, secondText);
+  }
+
+  /**
+   * Insert a new item before `index` (or append when `index` equals the item
+   * count). The item is written in block style with the sequence's indentation.
+   */
+  insertItem(index: number, value: Record<string, unknown>): this {
+    if (this.json) {
+      if (index < 0 || index > this.json.items.length) {
+        throw new Error(`Item index ${index} out of range`);
+      }
+      this.json.items.splice(index, 0, value);
+      return this;
+    }
+
+    const { seq, offset } = this.locate();
+    const count = seq?.items.length ?? 0;
+    if (index < 0 || index > count) {
+      throw new Error(`Item index ${index} out of range`);
+    }
+
+    if (!seq || count === 0 || seq.flow) {
+      const items = seq ? (seq.toJSON() as unknown[]) : [];
+      items.splice(index, 0, value);
+      const rendered = new Document(items).toString({ lineWidth: 0 });
+      return this.splice(offset, this.text.length, rendered);
+    }
+
+    // New items go after the previous item so leading comments stay with theirs
+    const reference = seq.items[Math.max(index - 1, 0)] as YAMLMap;
+    const referenceStart = offset + reference.range![0];
+    const prefix = this.text.slice(this.lineStart(referenceStart), referenceStart);
+    const dashPrefix = /^\s*-\s+$/.test(prefix) ? prefix : `${' '.repeat(Math.max(prefix.length - 2, 0))}- `;
+    const block = renderBlock(value, dashPrefix);
+
+    if (index === 0) {
+      const lineStart = this.lineStart(referenceStart);
+      return this.splice(lineStart, lineStart, `${block}\n`);
+    }
+
+    const lineEnd = this.lineEnd(this.trimEnd(offset + reference.range![1]));
+    return lineEnd < this.text.length
+      ? this.splice(lineEnd + 1, lineEnd + 1, `${block}\n`)
+      : this.splice(lineEnd, lineEnd, `\n${block}`);
+  }
+
+  /** Remove an item. Comments above it are kept. */
+  removeItem(index: number): this {
+    if (this.json) {
+      this.jsonItem(index);
+      this.json.items.splice(index, 1);
+      return this;
+    }
+
+    const { item, offset } = this.itemAt(index);
+    const start = this.lineStart(offset + item.range![0]);
+    const end = this.lineEnd(this.trimEnd(offset + item.range![1]));
+    return this.splice(start, Math.min(end + 1, this.text.length), '');
+  }
+
+  toString(): string {
+    if (this.json) {
+      const trailingNewline = /\n\s*$/.test(this.text) ? '\n' : '';
+      return JSON.stringify(this.json.root, null, this.json.indent) + trailingNewline;
+    }
+    return this.text;
+  }
+
+  private jsonItem(index: number): Record<string, unknown> {
+    const item = this.json!.items[index];
+    if (item === undefined) {
+      throw new Error(`Item index ${index} out of range`);
+    }
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`Item ${index} is not a mapping`);
+    }
+    return item as Record<string, unknown>;
+  }
+
+  private locate(): LocatedData {
+    const { dataOffset } = splitSections(this.text);
+    const doc = parseDocument(this.text.slice(dataOffset));
+
+    if (doc.errors.length > 0) {
+      throw new Error(`Cannot update YAML: ${doc.errors[0].message}`);
+    }
+    if (doc.contents !== null && !isSeq(doc.contents)) {
+      throw new Error('Cannot update YAML: not an array');
+    }
+
+    return { seq: doc.contents as YAMLSeq | null, offset: dataOffset };
+  }
+
+  private itemAt(index: number): { item: YAMLMap | Scalar | YAMLSeq; offset: number } {
+    const { seq, offset } = this.locate();
+    const item = seq?.items[index] as YAMLMap | Scalar | YAMLSeq | undefined;
+    if (!item || !item.range) {
+      throw new Error(`Item index ${index} out of range`);
+    }
+    return { item, offset };
+  }
+
+  /** Re-render a single item (used for flow-style items) */
+  private rewriteItem(index: number, update: (node: YAMLMap) => void): this {
+    const { item, offset } = this.itemAt(index);
+    if (!isMap(item)) {
+      throw new Error(`Item ${index} is not a mapping`);
+    }
+
+    const doc = new Document();
+    doc.contents = item;
+    update(item);
+    const rendered = doc.toString({ lineWidth: 0 }).replace(/\n$/, '');
+
+    return this.splice(offset + item.range![0], this.trimEnd(offset + item.range![1]), rendered);
+  }
+
+  private splice(start: number, end: number, replacement: string): this {
+    this.text = this.text.slice(0, start) + replacement + this.text.slice(end);
+    return this;
+  }
+
+  /** Move an end offset back over trailing whitespace and newlines */
+  private trimEnd(position: number): number {
+    let end = position;
+    while (end > 0 && /\s/.test(this.text[end - 1])) end--;
+    return end;
+  }
+
+  private lineStart(position: number): number {
+    return this.text.lastIndexOf('\n', position - 1) + 1;
+  }
+
+  /** Offset of the newline ending the line at `position`, or the text length */
+  private lineEnd(position: number): number {
+    const newline = this.text.indexOf('\n', position);
+    return newline === -1 ? this.text.length : newline;
+  }
+
+  private columnOf(position: number): number {
+    return position - this.lineStart(position);
+  }
+}
+
+/** Read a JSON source's items; null for YAML (or JSON that doesn't parse, left to the YAML path) */
+function parseJsonData(source: string): JsonData | null {
+  if (!/^\s*[[{]/.test(source)) return null;
+
+  let root: unknown;
+  try {
+    root = JSON.parse(source);
+  } catch {
+    return null;
+  }
+
+  const items = Array.isArray(root) ? root
+    : root && typeof root === 'object' && Array.isArray((root as { data?: unknown }).data) ? (root as { data: unknown[] }).data
+    : null;
+  if (!items) return null;
+
+  const indent = /\n([ \t]+)\S/.exec(source);
+  return { root, items, indent: indent ? indent[1] : '  ' };
+}
+
+function keyOf(pair: unknown): unknown {
+  const key = (pair as Pair).key;
+  return isScalar(key) ? key.value : key;
+}
+
+function findPair(map: YAMLMap, key: string): Pair | undefined {
+  return map.items.find(pair => keyOf(pair) === key) as Pair | undefined;
+}
+
+function keyEnd(pair: Pair): number {
+  return (pair.key as Scalar).range![1];
+}
+
+/** End of a pair's value (or key, when the value is empty) */
+function pairEnd(pair: Pair): number {
+  const value = pair.value as Scalar | null;
+  return value && value.range ? value.range[1] : keyEnd(pair);
+}
+
+/**
+ * Stringify a value for use inline after `key: `. Strings keep the quote
+ * style of the value they replace; collections are written in flow style.
+ */
+function stringifyValue(value: unknown, like?: Scalar): string {
+  const doc = new Document(value);
+  if (isScalar(doc.contents) && like && typeof value === 'string' &&
+      (like.type === 'QUOTE_DOUBLE' || like.type === 'QUOTE_SINGLE')) {
+    doc.contents.type = like.type;
+  }
+  if (isCollection(doc.contents)) {
+    doc.contents.flow = true;
+  }
+  return doc.toString({ lineWidth: 0, blockQuote: false }).replace(/\n$/, '');
+}
+
+/** Render an item in block style, prefixed with the sequence's "- " indicator */
+function renderBlock(value: Record<string, unknown>, dashPrefix: string): string {
+  const lines = new Document(value).toString({ lineWidth: 0, blockQuote: false }).replace(/\n$/, '').split('\n');
+  const indent = ' '.repeat(dashPrefix.length);
+  return lines.map((line, i) => (i === 0 ? dashPrefix : indent) + line).join('\n');
+}
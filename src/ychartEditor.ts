@@ -1,56 +1,51 @@
 import { EditorView, basicSetup } from 'codemirror';
+import { keymap, type ViewUpdate } from '@codemirror/view';
+import { EditorState, Transaction, type Extension } from '@codemirror/state';
+import { isolateHistory, redo as redoEdit, undo as undoEdit, undoDepth } from '@codemirror/commands';
 import { yaml } from '@codemirror/lang-yaml';
 import { oneDark } from '@codemirror/theme-one-dark';
-import { linter, lintGutter, type Diagnostic } from '@codemirror/lint';
+import { forceLinting, linter, lintGutter, type Diagnostic } from '@codemirror/lint';
 import * as jsyaml from 'js-yaml';
 import { OrgChart } from './d3-org-chart.js';
 import { ForceGraph } from './forceGraph.js';
 import { NodeHeightSyncService } from './nodeHeightSyncService.js';
+import { OrgDocument, type OrgConnection, type OrgNode } from './orgDocument.js';
+import { HistoryManager } from './historyManager.js';
+import { YamlPatch } from './yamlPatch.js';
+import { describeRejectedEdit, describeRenderError, TemplateRenderError, type RenderErrorInfo } from './renderError.js';
+import { inlineImages, prepareChartSvg, renderPdf, renderPng, serializeSvg, type PaperSize, type PdfExportOptions, type PngExportOptions, type PreparedSvg } from './chartExport.js';
+import { CSV_TARGET_FIELDS, csvToYAML, guessColumnMapping, nodesToCSV, parseCSV, type CsvColumnMapping, type CsvTargetField } from './csv.js';
+import { ychartCompletions } from './completions.js';
+import { ychartGoToDefinition, ychartHover } from './navigation.js';
+import { escapeHtml, sanitizeHtml } from './sanitize.js';
+import { isHtmlField, photoOf, renderAvatar, renderCard, selectCardTemplate } from './cardTemplate.js';
+import type { YChartOptions, FieldSchema, SchemaDefinition, CardElement, CardTemplates, YChartView, YChartEventMap, YChartEventName, YChartEventHandler } from './types.js';
 import './styles/styles.scss';
 
-interface YChartOptions {
-  nodeWidth?: number;
-  nodeHeight?: number;
-  childrenMargin?: number;
-  compactMarginBetween?: number;
-  compactMarginPair?: number;
-  neighbourMargin?: number;
-  editorTheme?: 'light' | 'dark';
-  collapsible?: boolean;
-  bgPatternStyle?: 'dotted' | 'dashed';
-  patternColor?: string;
-  toolbarPosition?: 'topleft' | 'topright' | 'bottomleft' | 'bottomright' | 'topcenter' | 'bottomcenter';
-  toolbarOrientation?: 'horizontal' | 'vertical';
-  experimental?: boolean;
-}
-
-interface FieldSchema {
-  type: string;
-  required: boolean;
-  missing: boolean;
-  aliases?: string[];  // Alternate field names that map to this field
-}
+// Id of the synthetic node that groups the trees of a `forest: synthetic-root` document
+const FOREST_ROOT_ID = '__forest_root__';
 
-interface SchemaDefinition {
-  [fieldName: string]: FieldSchema;
-}
+// Source of the history entries that mirror CodeMirror's history steps
+const EDITOR_HISTORY = 'editor';
 
-interface CardElement {
-  [tagName: string]: string | CardConfig;
-}
+// Why add and delete refuse to leave a second top-level node outside a forest
+const ROOT_PEER_REASON = 'This node is at the top of the chart, so a peer would start a second tree. Set the `forest` option to allow several.';
+const ROOT_REASSIGN_REASON = 'This node is at the top of the chart and has several reports, so moving them up would leave several trees. Delete it with its reports, or set the `forest` option.';
 
-interface CardConfig {
-  class?: string;
-  content?: string;
-  style?: string;
-  children?: CardElement[];
+// Escape text for use inside SVG markup
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
-interface FrontMatter {
-  options: YChartOptions;
-  schema: SchemaDefinition;
-  card?: CardElement[];
-  data: string;
+// The single change turning `before` into `after`: everything between their
+// common prefix and common suffix
+function minimalChange(before: string, after: string): { from: number; to: number; insert: string } {
+  const max = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < max && before.charCodeAt(start) === after.charCodeAt(start)) start++;
+  let end = 0;
+  while (end < max - start && before.charCodeAt(before.length - 1 - end) === after.charCodeAt(after.length - 1 - end)) end++;
+  return { from: start, to: before.length - end, insert: after.slice(start, after.length - end) };
 }
 
 // Generate a unique identifier for each editor instance
@@ -67,11 +62,17 @@ class YChartEditor {
   private editorContainer: HTMLElement | null = null;
   private chartContainer: HTMLElement | null = null;
   private editor: EditorView | null = null;
+  /** Editor extensions, kept to start a fresh state when a document is loaded */
+  private editorExtensions: Extension[] = [];
   private orgChart: any = null;
   private forceGraph: ForceGraph | null = null;
-  private currentView: 'hierarchy' | 'force' = 'hierarchy';
+  private currentView: YChartView = 'hierarchy';
   private swapModeEnabled = false;
+  private moveModeEnabled = false;
+  private dottedLinesVisible = true;
+  private dottedLineConnections: OrgConnection[] = [];
   private isUpdatingProgrammatically = false;
+  private selectionSyncTimer: ReturnType<typeof setTimeout> | null = null;
   private defaultOptions: YChartOptions;
   private initialData: string = '';
   private detailsPanel: HTMLElement | null = null;
@@ -82,19 +83,29 @@ class YChartEditor {
   private customTemplate: ((d: any, schema: SchemaDefinition) => string) | null = null;
   private currentSchema: SchemaDefinition = {};
   private cardTemplate: CardElement[] | null = null;
+  private cardTemplates: CardTemplates | null = null;
   private columnAdjustMode = false;
   private columnAdjustButtons: HTMLElement | null = null;
+  private exportMenu: HTMLElement | null = null;
+  private nodeEditor: HTMLElement | null = null;
+  private nodeContextMenu: HTMLElement | null = null;
+  private nodeContextMenuCleanup: (() => void) | null = null;
+  private history = new HistoryManager({ onChange: () => this.updateHistoryButtons() });
   private experimental = false;
   private instanceId: string;
   private searchPopup: HTMLElement | null = null;
   private searchHistoryPopup: HTMLElement | null = null;
   private errorBanner: HTMLElement | null = null;
+  private renderErrorOverlay: HTMLElement | null = null;
+  /** State of the last successful hierarchy render, restored when a render fails */
+  private lastGoodRender: { nodes: OrgNode[]; schema: SchemaDefinition; card: CardElement[] | null; cards: CardTemplates | null; connections: OrgConnection[] } | null = null;
   private floatingSearchBar: HTMLElement | null = null;
   private searchResultsDropdown: HTMLElement | null = null;
   // Default supervisor field aliases - can be overridden via schema or supervisorLookup()
   private supervisorFields: string[] = ['supervisor', 'reports', 'reports_to', 'manager', 'leader', 'parent'];
   private nameField: string = 'name';
   private nodeHeightSync: NodeHeightSyncService | null = null;
+  private eventHandlers: { [K in YChartEventName]?: Set<YChartEventHandler<K>> } = {};
   
   constructor(options?: YChartOptions) {
     this.instanceId = generateUUID();
@@ -135,6 +146,7 @@ class YChartEditor {
 
     // Create the layout structure
     this.createLayout();
+    this.updateHistoryButtons();
     
     // Initialize the editor
     this.initializeEditor();
@@ -191,6 +203,15 @@ class YChartEditor {
     `;
     chartWrapper.appendChild(this.detailsPanel);
 
+    // Photos that fail to load uncover the initials avatar behind them
+    // (error events don't bubble, so listen in the capture phase)
+    chartWrapper.addEventListener('error', (event) => {
+      const target = event.target;
+      if (target instanceof HTMLImageElement && target.classList.contains('yc-avatar-img')) {
+        target.style.display = 'none';
+      }
+    }, true);
+
     // Create toolbar
     this.toolbar = this.createToolbar();
     chartWrapper.appendChild(this.toolbar);
@@ -247,34 +268,28 @@ class YChartEditor {
     editorTitle.style.cssText = 'color: var(--yc-color-editor-text); font-size: var(--yc-font-size-sm); font-weight: var(--yc-font-weight-semibold);';
     editorHeader.appendChild(editorTitle);
 
-    const formatBtn = document.createElement('button');
-    formatBtn.innerHTML = `
-      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-        <polyline points="16 18 22 12 16 6"/>
-        <polyline points="8 6 2 12 8 18"/>
-      </svg>
-      <span style="margin-left: var(--yc-spacing-xs);">Format</span>
-    `;
-    formatBtn.style.cssText = `
-      display: flex;
-      align-items: center;
-      background: var(--yc-color-primary);
-      color: white;
-      border: none;
-      padding: var(--yc-spacing-xs) var(--yc-spacing-md);
-      border-radius: var(--yc-border-radius-sm);
-      cursor: pointer;
-      font-size: var(--yc-font-size-xs);
-      transition: background var(--yc-transition-fast);
-    `;
-    formatBtn.onmouseenter = () => {
-      formatBtn.style.background = 'var(--yc-color-primary-dark)';
-    };
-    formatBtn.onmouseleave = () => {
-      formatBtn.style.background = 'var(--yc-color-primary)';
-    };
-    formatBtn.onclick = () => this.handleFormatYAML();
-    editorHeader.appendChild(formatBtn);
+    const headerActions = document.createElement('div');
+    headerActions.style.cssText = 'display: flex; gap: var(--yc-spacing-xs);';
+
+    headerActions.appendChild(this.createEditorHeaderButton(
+      'importCsv',
+      'Import CSV',
+      '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3"/></svg>',
+      () => this.handleImportCSV()
+    ));
+    headerActions.appendChild(this.createEditorHeaderButton(
+      'exportCsv',
+      'Export CSV',
+      '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5-5 5 5M12 5v12"/></svg>',
+      () => this.handleExportCSV()
+    ));
+    headerActions.appendChild(this.createEditorHeaderButton(
+      'format',
+      'Format',
+      '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="16 18 22 12 16 6"/><polyline points="8 6 2 12 8 18"/></svg>',
+      () => this.handleFormatYAML()
+    ));
+    editorHeader.appendChild(headerActions);
 
     editorSidebar.appendChild(editorHeader);
 
@@ -314,6 +329,33 @@ class YChartEditor {
     this.viewContainer.appendChild(editorSidebar);
   }
 
+  private createEditorHeaderButton(id: string, label: string, icon: string, action: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.setAttribute('data-id', `ychart-editor-btn-${id}-${this.instanceId}`);
+    button.setAttribute('aria-label', label);
+    button.innerHTML = `${icon}<span style="margin-left: var(--yc-spacing-xs);">${label}</span>`;
+    button.style.cssText = `
+      display: flex;
+      align-items: center;
+      background: var(--yc-color-primary);
+      color: white;
+      border: none;
+      padding: var(--yc-spacing-xs) var(--yc-spacing-md);
+      border-radius: var(--yc-border-radius-sm);
+      cursor: pointer;
+      font-size: var(--yc-font-size-xs);
+      transition: background var(--yc-transition-fast);
+    `;
+    button.onmouseenter = () => {
+      button.style.background = 'var(--yc-color-primary-dark)';
+    };
+    button.onmouseleave = () => {
+      button.style.background = 'var(--yc-color-primary)';
+    };
+    button.onclick = action;
+    return button;
+  }
+
   private getToolbarPositionStyles(): string {
     const margin = 'var(--yc-spacing-4xl)';
     
@@ -387,12 +429,16 @@ class YChartEditor {
       fit: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M8 3H5a2 2 0 0 0-2 2v3m18 0V5a2 2 0 0 0-2-2h-3m0 18h3a2 2 0 0 0 2-2v-3M3 16v3a2 2 0 0 0 2 2h3"/></svg>`,
       export: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5-5 5 5M12 15V3"/></svg>`,
       swap: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M16 3l4 4-4 4M8 21l-4-4 4-4M20 7H4M4 17h16"/></svg>`,
+      move: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M5 9l-3 3 3 3M9 5l3-3 3 3M15 19l-3 3-3-3M19 9l3 3-3 3M2 12h20M12 2v20"/></svg>`,
+      dottedLines: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="5" cy="19" r="2"/><circle cx="19" cy="5" r="2"/><path d="M7 19c6 0 10-4 10-12" stroke-dasharray="2 3"/></svg>`,
       forceGraph: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="2"/><circle cx="19" cy="12" r="2"/><circle cx="5" cy="12" r="2"/><circle cx="12" cy="5" r="2"/><circle cx="12" cy="19" r="2"/><line x1="12" y1="7" x2="12" y2="10"/><line x1="12" y1="14" x2="12" y2="17"/><line x1="14" y1="12" x2="17" y2="12"/><line x1="7" y1="12" x2="10" y2="12"/></svg>`,
       orgChart: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="7" height="7" rx="1"/><rect x="14" y="3" width="7" height="7" rx="1"/><rect x="14" y="14" width="7" height="7" rx="1"/><rect x="3" y="14" width="7" height="7" rx="1"/></svg>`,
       expandAll: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="15 3 21 3 21 9"/><polyline points="9 21 3 21 3 15"/><line x1="21" y1="3" x2="14" y2="10"/><line x1="3" y1="21" x2="10" y2="14"/></svg>`,
       collapseAll: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="4 14 10 14 10 20"/><polyline points="20 10 14 10 14 4"/><line x1="14" y1="10" x2="21" y2="3"/><line x1="3" y1="21" x2="10" y2="14"/></svg>`,
       columnAdjust: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="7" height="18" rx="1"/><rect x="14" y="3" width="7" height="18" rx="1"/><line x1="6.5" y1="8" x2="6.5" y2="16"/><line x1="17.5" y1="8" x2="17.5" y2="16"/></svg>`,
       search: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="11" cy="11" r="8"/><path d="m21 21-4.35-4.35"/></svg>`,
+      undo: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 14 4 9l5-5"/><path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11"/></svg>`,
+      redo: `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m15 14 5-5-5-5"/><path d="M20 9H9.5a5.5 5.5 0 0 0 0 11H13"/></svg>`,
     };
 
     // Button configurations
@@ -403,12 +449,16 @@ class YChartEditor {
       { id: 'collapseAll', icon: icons.collapseAll, tooltip: 'Collapse All', action: () => this.handleCollapseAll() },
       { id: 'columnAdjust', icon: icons.columnAdjust, tooltip: 'Adjust Child Columns', action: () => this.handleColumnAdjustToggle() },
       { id: 'swap', icon: icons.swap, tooltip: 'Swap Mode', action: () => this.handleSwapToggle() },
-      { id: 'export', icon: icons.export, tooltip: 'Export SVG', action: () => this.handleExport() },
+      { id: 'move', icon: icons.move, tooltip: 'Move Mode (drag to reparent)', action: () => this.handleMoveToggle() },
+      { id: 'dottedLines', icon: icons.dottedLines, tooltip: 'Show Dotted Lines', action: () => this.handleDottedLinesToggle() },
+      { id: 'export', icon: icons.export, tooltip: 'Export', action: () => this.handleExport() },
+      { id: 'undo', icon: icons.undo, tooltip: 'Undo (Ctrl+Z)', action: () => this.undo() },
+      { id: 'redo', icon: icons.redo, tooltip: 'Redo (Ctrl+Shift+Z)', action: () => this.redo() },
     ];
 
     // Add Force Graph toggle button only if experimental mode is enabled
     if (this.experimental) {
-      buttons.splice(6, 0, { 
+      buttons.splice(8, 0, { 
         id: 'toggleView', 
         icon: this.currentView === 'hierarchy' ? icons.forceGraph : icons.orgChart, 
         tooltip: this.currentView === 'hierarchy' ? 'Switch to Force Graph (Experimental)' : 'Switch to Org Chart', 
@@ -464,6 +514,12 @@ class YChartEditor {
       
       button.appendChild(tooltip);
 
+      // Dotted lines are shown by default, so their toggle starts active
+      if (btn.id === 'dottedLines' && this.dottedLinesVisible) {
+        button.style.background = 'var(--yc-color-accent-purple)';
+        button.style.color = 'white';
+      }
+
       // Add experimental badge for Force Graph toggle button
       if (btn.id === 'toggleView' && this.experimental) {
         const badge = document.createElement('span');
@@ -510,7 +566,10 @@ class YChartEditor {
         if (btn.id === 'swap' && this.swapModeEnabled) {
           button.style.background = 'var(--yc-color-accent-red)';
           button.style.color = 'white';
-        } else if (btn.id === 'columnAdjust' && this.columnAdjustMode) {
+        } else if (btn.id === 'move' && this.moveModeEnabled) {
+          button.style.background = 'var(--yc-color-success)';
+          button.style.color = 'white';
+        } else if ((btn.id === 'columnAdjust' && this.columnAdjustMode) || (btn.id === 'dottedLines' && this.dottedLinesVisible)) {
           button.style.background = 'var(--yc-color-accent-purple)';
           button.style.color = 'white';
         } else {
@@ -825,9 +884,9 @@ class YChartEditor {
       `;
 
       const nodeData = node.data;
-      const displayName = nodeData.name || attrs.nodeId(nodeData);
-      const displayTitle = nodeData.title || '';
-      const displayDept = nodeData.department || '';
+      const displayName = escapeHtml(nodeData.name || attrs.nodeId(nodeData));
+      const displayTitle = escapeHtml(nodeData.title || '');
+      const displayDept = escapeHtml(nodeData.department || '');
 
       resultItem.innerHTML = `
         <div style="display: flex; justify-content: space-between; align-items: start; gap: var(--yc-spacing-md);">
@@ -838,7 +897,7 @@ class YChartEditor {
           </div>
           <div style="display: flex; flex-direction: column; align-items: flex-end; gap: 2px; flex-shrink: 0;">
             <span style="font-size: var(--yc-font-size-xs); color: var(--yc-color-primary); font-weight: var(--yc-font-weight-semibold);">${Math.round(score * 100)}%</span>
-            <span style="font-size: var(--yc-font-size-xs); color: var(--yc-color-text-light); background: var(--yc-color-button-bg); padding: 1px 6px; border-radius: var(--yc-border-radius-sm);">${matchedField}</span>
+            <span style="font-size: var(--yc-font-size-xs); color: var(--yc-color-text-light); background: var(--yc-color-button-bg); padding: 1px 6px; border-radius: var(--yc-border-radius-sm);">${escapeHtml(matchedField)}</span>
           </div>
         </div>
       `;
@@ -933,6 +992,7 @@ class YChartEditor {
     if (typeof this.orgChart.onNodeSwap === 'function') {
       this.orgChart.onNodeSwap((data1: any, data2: any) => {
         this.updateYAMLAfterSwap(data1, data2);
+        this.emit('swap', { node1: data1, node2: data2 });
       });
     }
 
@@ -949,6 +1009,90 @@ class YChartEditor {
     }
   }
 
+  private handleMoveToggle(): void {
+    if (!this.orgChart) return;
+
+    this.moveModeEnabled = !this.moveModeEnabled;
+
+    if (typeof this.orgChart.enableMoveMode === 'function') {
+      this.orgChart.enableMoveMode(this.moveModeEnabled);
+    }
+
+    // Update button style
+    const moveBtn = document.querySelector(`[data-id="ychart-btn-move-${this.instanceId}"]`) as HTMLElement;
+    if (moveBtn) {
+      if (this.moveModeEnabled) {
+        moveBtn.style.background = 'var(--yc-color-success)';
+        moveBtn.style.color = 'white';
+      } else {
+        moveBtn.style.background = 'transparent';
+        moveBtn.style.color = 'var(--yc-color-icon)';
+      }
+    }
+  }
+
+  private handleDottedLinesToggle(): void {
+    this.setDottedLinesVisible(!this.dottedLinesVisible);
+  }
+
+  private setDottedLinesVisible(visible: boolean): void {
+    this.dottedLinesVisible = visible;
+
+    if (this.orgChart && this.currentView === 'hierarchy' && this.orgChart.getChartState().root) {
+      this.orgChart.connections(this.getVisibleConnections()).updateNodesState();
+    }
+
+    const dottedLinesBtn = document.querySelector(`[data-id="ychart-btn-dottedLines-${this.instanceId}"]`) as HTMLElement;
+    if (dottedLinesBtn) {
+      dottedLinesBtn.style.background = visible ? 'var(--yc-color-accent-purple)' : 'transparent';
+      dottedLinesBtn.style.color = visible ? 'white' : 'var(--yc-color-icon)';
+    }
+  }
+
+  /** Copies of the dotted-line connections (the chart annotates them with layout state) */
+  private getVisibleConnections(): OrgConnection[] {
+    return this.dottedLinesVisible ? this.dottedLineConnections.map(connection => ({ ...connection })) : [];
+  }
+
+  /** Marker id for a connection, unique per editor instance and safe inside url(#...) */
+  private connectionMarkerId(connection: OrgConnection): string {
+    return `ychart-dotted-${this.instanceId}-${connection.from}-${connection.to}`.replace(/[^\w-]/g, '_');
+  }
+
+  /**
+   * Label and arrow markers for dotted-line connections. Sized in user space
+   * so labels stay readable whatever the line width.
+   */
+  private renderConnectionDefs(state: any, visibleConnections: any[]): string {
+    const markers = visibleConnections.map(connection => {
+      const id = this.connectionMarkerId(connection);
+      const leftToRight = connection._source.x < connection._target.x;
+      const labelWidth = connection.label
+        ? this.orgChart.getTextWidth(connection.label, { ctx: state.ctx, fontSize: 11, defaultFont: state.defaultFont }) + 12
+        : 0;
+      return `
+        <marker id="${id}" markerUnits="userSpaceOnUse" refX="${leftToRight ? -12 : labelWidth + 12}" refY="9" markerWidth="${labelWidth + 1}" markerHeight="19" orient="${leftToRight ? 'auto' : 'auto-start-reverse'}">
+          <rect rx="4" width="${labelWidth}" height="18" fill="var(--yc-color-accent-purple)"></rect>
+          <text font-size="11px" x="6" y="13" fill="white">${escapeXml(connection.label || '')}</text>
+        </marker>
+        <marker id="arrow-${id}" markerUnits="userSpaceOnUse" markerWidth="12" markerHeight="12" refX="10" refY="6" orient="auto">
+          <path d="M0,0 L12,6 L0,12 Z" fill="var(--yc-color-accent-purple)" />
+        </marker>`;
+    }).join('');
+    return `<defs>${markers}</defs>`;
+  }
+
+  private styleConnection(path: SVGPathElement, connection: OrgConnection): void {
+    const id = this.connectionMarkerId(connection);
+    path.setAttribute('stroke', 'var(--yc-color-accent-purple)');
+    path.setAttribute('stroke-width', '2');
+    path.setAttribute('stroke-dasharray', '6 4');
+    path.setAttribute('stroke-linecap', 'round');
+    path.setAttribute('pointer-events', 'none');
+    path.setAttribute('marker-start', `url(#${id})`);
+    path.setAttribute('marker-end', `url(#arrow-${id})`);
+  }
+
   private handleToggleView(): void {
     if (this.currentView === 'hierarchy') {
       this.renderForceGraph();
@@ -956,6 +1100,8 @@ class YChartEditor {
       this.renderChart();
     }
 
+    this.emit('viewChange', { view: this.currentView });
+
     // Update the toggle view button icon and tooltip
     const toggleBtn = document.querySelector(`[data-id="ychart-btn-toggleView-${this.instanceId}"]`) as HTMLElement;
     if (toggleBtn) {
@@ -975,9 +1121,212 @@ class YChartEditor {
   }
 
   private handleExport(): void {
-    if (this.orgChart && typeof this.orgChart.exportSvg === 'function') {
-      this.orgChart.exportSvg();
+    if (this.exportMenu) {
+      this.hideExportMenu();
+    } else {
+      this.showExportMenu();
+    }
+  }
+
+  /**
+   * Show the export menu with SVG, PNG (scale, background) and PDF
+   * (paper size, orientation, page numbers) options.
+   */
+  private showExportMenu(): void {
+    if (!this.chartContainer) return;
+
+    this.hideExportMenu();
+
+    this.exportMenu = document.createElement('div');
+    this.exportMenu.setAttribute('data-id', `ychart-export-menu-${this.instanceId}`);
+    this.exportMenu.setAttribute('role', 'dialog');
+    this.exportMenu.setAttribute('aria-label', 'Export chart');
+    this.exportMenu.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: var(--yc-color-overlay-bg);
+      backdrop-filter: var(--yc-backdrop-blur);
+      border-radius: var(--yc-border-radius-xl);
+      padding: var(--yc-spacing-3xl);
+      box-shadow: var(--yc-shadow-2xl);
+      z-index: var(--yc-z-index-detail-panel);
+      border: var(--yc-border-width-thin) solid var(--yc-color-shadow-light);
+      min-width: 320px;
+      font-family: var(--yc-font-family-base);
+      font-size: var(--yc-font-size-base);
+      color: var(--yc-color-text-primary);
+    `;
+
+    const title = document.createElement('div');
+    title.textContent = 'Export Chart';
+    title.style.cssText = `
+      font-size: var(--yc-font-size-xl);
+      font-weight: var(--yc-font-weight-semibold);
+      margin-bottom: var(--yc-spacing-xl);
+      text-align: center;
+    `;
+    this.exportMenu.appendChild(title);
+
+    const fieldStyle = `
+      padding: var(--yc-spacing-xs) var(--yc-spacing-md);
+      border: 1px solid var(--yc-color-button-border);
+      border-radius: var(--yc-border-radius-md);
+      font-size: var(--yc-font-size-sm);
+      background: var(--yc-color-bg-card);
+    `;
+
+    const createSelect = (label: string, options: [string, string][], value: string): HTMLSelectElement => {
+      const select = document.createElement('select');
+      select.setAttribute('aria-label', label);
+      select.style.cssText = fieldStyle;
+      options.forEach(([optionValue, text]) => {
+        const option = document.createElement('option');
+        option.value = optionValue;
+        option.textContent = text;
+        select.appendChild(option);
+      });
+      select.value = value;
+      return select;
+    };
+
+    const createSection = (heading: string, controls: HTMLElement[], action: () => void): HTMLElement => {
+      const section = document.createElement('div');
+      section.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: var(--yc-spacing-md);
+        padding: var(--yc-spacing-md) 0;
+        border-top: var(--yc-border-width-thin) solid var(--yc-color-shadow-light);
+      `;
+
+      const name = document.createElement('span');
+      name.textContent = heading;
+      name.style.cssText = 'font-weight: var(--yc-font-weight-semibold); width: 40px;';
+      section.appendChild(name);
+
+      const controlsWrapper = document.createElement('div');
+      controlsWrapper.style.cssText = 'display: flex; flex-wrap: wrap; align-items: center; gap: var(--yc-spacing-sm); flex: 1;';
+      controls.forEach(control => controlsWrapper.appendChild(control));
+      section.appendChild(controlsWrapper);
+
+      const downloadBtn = document.createElement('button');
+      downloadBtn.textContent = 'Download';
+      downloadBtn.setAttribute('data-id', `ychart-export-${heading.toLowerCase()}-${this.instanceId}`);
+      downloadBtn.style.cssText = `
+        padding: var(--yc-spacing-xs) var(--yc-spacing-md);
+        border: none;
+        background: var(--yc-color-primary);
+        color: white;
+        border-radius: var(--yc-border-radius-sm);
+        cursor: pointer;
+        font-size: var(--yc-font-size-sm);
+        transition: background var(--yc-transition-fast);
+      `;
+      downloadBtn.onmouseenter = () => downloadBtn.style.background = 'var(--yc-color-primary-dark)';
+      downloadBtn.onmouseleave = () => downloadBtn.style.background = 'var(--yc-color-primary)';
+      downloadBtn.onclick = action;
+      section.appendChild(downloadBtn);
+
+      return section;
+    };
+
+    // SVG
+    this.exportMenu.appendChild(createSection('SVG', [], () => {
+      this.exportSVG();
+      this.hideExportMenu();
+    }));
+
+    // PNG: scale and background
+    const pngScale = createSelect('PNG scale', [['1', '1x'], ['2', '2x'], ['3', '3x'], ['4', '4x']], '2');
+    const pngBackground = createSelect('PNG background', [['#ffffff', 'White'], ['transparent', 'Transparent'], ['custom', 'Custom…']], '#ffffff');
+    const pngColor = document.createElement('input');
+    pngColor.type = 'color';
+    pngColor.value = '#ffffff';
+    pngColor.setAttribute('aria-label', 'PNG background color');
+    pngColor.style.cssText = 'display: none; width: 32px; height: 24px; padding: 0; border: none; background: transparent;';
+    pngBackground.onchange = () => {
+      pngColor.style.display = pngBackground.value === 'custom' ? 'inline-block' : 'none';
+    };
+    this.exportMenu.appendChild(createSection('PNG', [pngScale, pngBackground, pngColor], () => {
+      const background = pngBackground.value === 'custom' ? pngColor.value : pngBackground.value;
+      this.exportPNG(undefined, { scale: Number(pngScale.value), background })
+        .then(() => this.hideExportMenu());
+    }));
+
+    // PDF: paper size, orientation and page numbers
+    const pdfPaper = createSelect('PDF paper size', [['a4', 'A4'], ['a3', 'A3'], ['letter', 'Letter'], ['legal', 'Legal'], ['tabloid', 'Tabloid']], 'a4');
+    const pdfOrientation = createSelect('PDF orientation', [['landscape', 'Landscape'], ['portrait', 'Portrait']], 'landscape');
+    const pageNumbersLabel = document.createElement('label');
+    pageNumbersLabel.style.cssText = 'display: flex; align-items: center; gap: var(--yc-spacing-xs); font-size: var(--yc-font-size-sm);';
+    const pageNumbers = document.createElement('input');
+    pageNumbers.type = 'checkbox';
+    pageNumbers.checked = true;
+    pageNumbersLabel.appendChild(pageNumbers);
+    pageNumbersLabel.appendChild(document.createTextNode('Page numbers'));
+    this.exportMenu.appendChild(createSection('PDF', [pdfPaper, pdfOrientation, pageNumbersLabel], () => {
+      this.exportPDF(undefined, {
+        paperSize: pdfPaper.value as PaperSize,
+        orientation: pdfOrientation.value as 'portrait' | 'landscape',
+        pageNumbers: pageNumbers.checked
+      }).then(() => this.hideExportMenu());
+    }));
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = 'Close';
+    closeBtn.style.cssText = `
+      width: 100%;
+      margin-top: var(--yc-spacing-md);
+      padding: var(--yc-spacing-md);
+      border: none;
+      background: var(--yc-color-ui-slate-lighter);
+      color: white;
+      border-radius: var(--yc-border-radius-lg);
+      cursor: pointer;
+      font-size: var(--yc-font-size-md);
+      transition: all 0.2s ease;
+    `;
+    closeBtn.onmouseover = () => closeBtn.style.background = 'var(--yc-color-ui-slate-light)';
+    closeBtn.onmouseleave = () => closeBtn.style.background = 'var(--yc-color-ui-slate-lighter)';
+    closeBtn.onclick = () => this.hideExportMenu();
+    this.exportMenu.appendChild(closeBtn);
+
+    this.exportMenu.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') this.hideExportMenu();
+    });
+
+    this.chartContainer.appendChild(this.exportMenu);
+  }
+
+  private hideExportMenu(): void {
+    if (this.exportMenu && this.exportMenu.parentNode) {
+      this.exportMenu.parentNode.removeChild(this.exportMenu);
     }
+    this.exportMenu = null;
+  }
+
+  /**
+   * Prepare a standalone copy of the rendered hierarchy chart for export,
+   * with photos embedded.
+   */
+  private async prepareExportSvg(): Promise<PreparedSvg> {
+    const svgNode = this.orgChart?.getChartState().svg?.node() as SVGSVGElement | undefined;
+    if (!svgNode || this.currentView !== 'hierarchy') {
+      throw new Error('Export is only available for the org chart view');
+    }
+    const prepared = prepareChartSvg(svgNode, this.viewContainer || document.documentElement);
+    await inlineImages(prepared);
+    return prepared;
+  }
+
+  private downloadFile(url: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   }
 
   private handleFormatYAML(): void {
@@ -987,8 +1336,12 @@ class YChartEditor {
       // Get current YAML content
       const currentContent = this.editor.state.doc.toString();
       
-      // Check if content has front matter (starts with ---)
-      if (currentContent.startsWith('---')) {
+      // JSON documents stay JSON
+      if (/^\s*[[{]/.test(currentContent)) {
+        const formatted = JSON.stringify(JSON.parse(currentContent), null, 2) + '\n';
+        this.replaceDocument(formatted, 'Format JSON');
+      } else if (currentContent.startsWith('---')) {
+        // Content has front matter (starts with ---)
         const parts = currentContent.split('---');
         if (parts.length >= 3) {
           // Parse front matter and data separately
@@ -1042,13 +1395,7 @@ class YChartEditor {
           const formatted = `---\n${reconstructedFrontMatter}\n---\n\n${formattedData.trim()}\n`;
           
           // Update the editor with formatted YAML
-          this.editor.dispatch({
-            changes: {
-              from: 0,
-              to: this.editor.state.doc.length,
-              insert: formatted
-            }
-          });
+          this.replaceDocument(formatted, 'Format YAML');
         }
       } else {
         // No front matter, format as single document
@@ -1060,15 +1407,10 @@ class YChartEditor {
           sortKeys: false,
         });
         
-        this.editor.dispatch({
-          changes: {
-            from: 0,
-            to: this.editor.state.doc.length,
-            insert: formatted
-          }
-        });
+        this.replaceDocument(formatted, 'Format YAML');
       }
 
+      this.renderChart();
       console.log('YAML formatted successfully');
     } catch (error) {
       console.error('Failed to format YAML:', error);
@@ -1076,6 +1418,179 @@ class YChartEditor {
     }
   }
 
+  private handleImportCSV(): void {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.csv,text/csv';
+    fileInput.onchange = async () => {
+      const file = fileInput.files && fileInput.files[0];
+      if (!file) return;
+
+      try {
+        const csvText = await file.text();
+        const rows = parseCSV(csvText);
+        if (rows.length === 0) {
+          alert('The selected CSV file is empty');
+          return;
+        }
+        this.showCsvMappingDialog(csvText, rows[0]);
+      } catch (error) {
+        console.error('Failed to read CSV:', error);
+        alert(`Failed to read CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+    fileInput.click();
+  }
+
+  /**
+   * Show the column-mapping step for a CSV import. Each YChart field gets a
+   * dropdown of CSV headers, pre-filled from common header names.
+   */
+  private showCsvMappingDialog(csvText: string, headers: string[]): void {
+    if (!this.viewContainer) return;
+
+    const guessed = guessColumnMapping(headers);
+
+    const overlay = document.createElement('div');
+    overlay.setAttribute('data-id', `ychart-csv-dialog-${this.instanceId}`);
+    overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: var(--yc-color-overlay-dark);
+      z-index: var(--yc-z-index-search-popup);
+      font-family: var(--yc-font-family-base);
+    `;
+
+    const dialog = document.createElement('div');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Map CSV columns');
+    dialog.style.cssText = `
+      background: var(--yc-color-bg-card);
+      border-radius: var(--yc-border-radius-xl);
+      padding: var(--yc-spacing-3xl);
+      box-shadow: var(--yc-shadow-2xl);
+      min-width: 360px;
+      max-width: 90vw;
+    `;
+
+    const title = document.createElement('h3');
+    title.textContent = 'Map CSV Columns';
+    title.style.cssText = 'margin: 0 0 var(--yc-spacing-xl) 0; color: var(--yc-color-text-primary);';
+    dialog.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.style.cssText = 'display: grid; grid-template-columns: 120px 1fr; gap: var(--yc-spacing-md); align-items: center;';
+
+    const selects = new Map<CsvTargetField, HTMLSelectElement>();
+    CSV_TARGET_FIELDS.forEach(field => {
+      const label = document.createElement('label');
+      label.textContent = field;
+      label.style.cssText = 'font-weight: var(--yc-font-weight-semibold); color: var(--yc-color-text-secondary);';
+
+      const select = document.createElement('select');
+      select.setAttribute('aria-label', `CSV column for ${field}`);
+      select.style.cssText = `
+        padding: var(--yc-spacing-sm) var(--yc-spacing-lg);
+        border: 1px solid var(--yc-color-button-border);
+        border-radius: var(--yc-border-radius-md);
+        font-size: var(--yc-font-size-base);
+        background: var(--yc-color-bg-card);
+      `;
+
+      const none = document.createElement('option');
+      none.value = '';
+      none.textContent = '(not mapped)';
+      select.appendChild(none);
+
+      headers.forEach(header => {
+        const option = document.createElement('option');
+        option.value = header;
+        option.textContent = header;
+        select.appendChild(option);
+      });
+      select.value = guessed[field] ?? '';
+
+      selects.set(field, select);
+      grid.appendChild(label);
+      grid.appendChild(select);
+    });
+    dialog.appendChild(grid);
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; justify-content: flex-end; gap: var(--yc-spacing-md); margin-top: var(--yc-spacing-3xl);';
+
+    const close = () => overlay.remove();
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.textContent = 'Cancel';
+    cancelBtn.style.cssText = `
+      padding: var(--yc-spacing-sm) var(--yc-spacing-xl);
+      border: 1px solid var(--yc-color-button-border);
+      border-radius: var(--yc-border-radius-md);
+      background: transparent;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = close;
+
+    const importBtn = document.createElement('button');
+    importBtn.textContent = 'Import';
+    importBtn.style.cssText = `
+      padding: var(--yc-spacing-sm) var(--yc-spacing-xl);
+      border: none;
+      border-radius: var(--yc-border-radius-md);
+      background: var(--yc-color-primary);
+      color: white;
+      cursor: pointer;
+    `;
+    importBtn.onclick = () => {
+      const mapping: CsvColumnMapping = {};
+      selects.forEach((select, field) => {
+        if (select.value) mapping[field] = select.value;
+      });
+
+      try {
+        this.importCSV(csvText, mapping);
+        close();
+      } catch (error) {
+        alert(`Failed to import CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    actions.appendChild(cancelBtn);
+    actions.appendChild(importBtn);
+    dialog.appendChild(actions);
+
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close();
+    });
+    overlay.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') close();
+    });
+
+    overlay.appendChild(dialog);
+    this.viewContainer.appendChild(overlay);
+    importBtn.focus();
+  }
+
+  private handleExportCSV(): void {
+    try {
+      const csv = this.getCSV();
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      this.downloadFile(url, 'org-chart.csv');
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      alert(`Failed to export CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private handleExpandAll(): void {
     if (this.orgChart && typeof this.orgChart.expandAll === 'function') {
       this.orgChart.expandAll();
@@ -1568,9 +2083,9 @@ class YChartEditor {
       `;
 
       const nodeData = node.data;
-      const displayName = nodeData.name || attrs.nodeId(nodeData);
-      const displayTitle = nodeData.title || '';
-      const displayDept = nodeData.department || '';
+      const displayName = escapeHtml(nodeData.name || attrs.nodeId(nodeData));
+      const displayTitle = escapeHtml(nodeData.title || '');
+      const displayDept = escapeHtml(nodeData.department || '');
 
       suggestionItem.innerHTML = `
         <div style="display: flex; justify-content: space-between; align-items: start; gap: var(--yc-spacing-md);">
@@ -1804,8 +2319,8 @@ class YChartEditor {
         min-width: 0;
       `;
 
-      const searchText = `${item.field}: "${item.query}"`;
-      const nodeInfo = item.nodeName ? ` → ${item.nodeName}` : '';
+      const searchText = escapeHtml(`${item.field}: "${item.query}"`);
+      const nodeInfo = item.nodeName ? ` → ${escapeHtml(item.nodeName)}` : '';
       const timestamp = new Date(item.timestamp).toLocaleString();
 
       historyContent.innerHTML = `
@@ -2225,10 +2740,33 @@ class YChartEditor {
   }
 
   private adjustNodeColumns(nodeData: any, newColumns: number): void {
+    const nodeId = nodeData.data.id;
+    const previousColumns = nodeData.data._childColumns;
+
+    this.setNodeColumns(nodeId, newColumns);
+
+    this.history.push({
+      label: `Set ${nodeData.data.name || nodeId} to ${newColumns} columns`,
+      undo: () => this.setNodeColumns(nodeId, previousColumns),
+      redo: () => this.setNodeColumns(nodeId, newColumns)
+    });
+    
+    // Close the column adjust panel
+    this.hideColumnAdjustButtons();
+  }
+
+  private setNodeColumns(nodeId: string | number, columns: number | undefined): void {
+    if (!this.orgChart) return;
+
+    // Look the node up by id so history entries survive re-renders
+    const node = (this.orgChart.getChartState().allNodes || [])
+      .find((n: any) => String(n.data.id) === String(nodeId));
+    if (!node) return;
+
     // Store column preference on node data
-    nodeData.data._childColumns = newColumns;
+    node.data._childColumns = columns;
     
-    console.log(`Adjusted columns to ${newColumns} for node:`, nodeData.data.id);
+    console.log(`Adjusted columns to ${columns} for node:`, nodeId);
     
     // Re-render the chart with new column layout
     if (this.orgChart) {
@@ -2240,9 +2778,6 @@ class YChartEditor {
         }
       }, 200);
     }
-    
-    // Close the column adjust panel
-    this.hideColumnAdjustButtons();
   }
 
   private initializeEditor(): void {
@@ -2250,232 +2785,60 @@ class YChartEditor {
 
     // Create YAML linter that validates syntax and structure
     const yamlLinter = linter((view) => {
-      const diagnostics: Diagnostic[] = [];
-      const content = view.state.doc.toString();
-      
-      try {
-        // Parse the full content (front matter + data)
-        const { data: yamlData } = this.parseFrontMatter(content);
-        const parsed = jsyaml.load(yamlData);
-        
-        // Validate that the data is an array
-        if (parsed !== null && parsed !== undefined && !Array.isArray(parsed)) {
-          // Find the start of the data section (after front matter)
-          const dataStart = content.lastIndexOf('---');
-          const pos = dataStart !== -1 ? dataStart + 3 : 0;
-          
-          diagnostics.push({
-            from: pos,
-            to: Math.min(pos + 50, content.length),
-            severity: 'error',
-            message: 'YAML data must be an array of objects (start each item with "- ")'
-          });
-        } else if (Array.isArray(parsed)) {
-          // Detect which format is being used: id/parentId or name/supervisor
-          // If any item has 'name' but no 'id', treat as name-based format
-          const hasNameField = parsed.some((item: any) => item.name !== undefined);
-          const hasIdField = parsed.some((item: any) => item.id !== undefined);
-          const usesNameFormat = hasNameField && !hasIdField;
-          
-          if (usesNameFormat) {
-            // Validate name/supervisor format
-            const names = new Set(parsed.map((item: any) => item[this.nameField]));
-            
-            // Helper to get supervisor value from any of the alias fields
-            const getSupervisor = (item: any): string | undefined => {
-              for (const field of this.supervisorFields) {
-                if (item[field]) return item[field];
-              }
-              return undefined;
-            };
-            
-            // Identify root nodes: nodes with no supervisor OR supervisor that doesn't match any name
-            // Root nodes are allowed - their supervisor field is informational (e.g., "Board of Directors")
-            const rootNodes = (parsed as any[]).filter((item: any) => {
-              const supervisor = getSupervisor(item);
-              return !supervisor || !names.has(supervisor);
-            });
-            
-            if (rootNodes.length > 1) {
-              // Mark all root nodes after the first as errors
-              for (let i = 1; i < rootNodes.length; i++) {
-                const item = rootNodes[i];
-                const namePattern = new RegExp(`^-\\s*name:\\s*${this.escapeRegex(item.name)}`, 'm');
-                
-                const itemMatch = content.match(namePattern);
-                let errorPos = 0;
-                let errorEnd = content.length;
-                
-                if (itemMatch && itemMatch.index !== undefined) {
-                  errorPos = itemMatch.index;
-                  errorEnd = itemMatch.index + itemMatch[0].length;
-                }
-                
-                const lineNumber = content.substring(0, errorPos).split('\n').length;
-                
-                diagnostics.push({
-                  from: errorPos,
-                  to: errorEnd,
-                  severity: 'error',
-                  message: `Line ${lineNumber}: Multiple root nodes detected - only one node can have no supervisor (name: ${item.name})`
-                });
-              }
-            }
-            
-            // Note: We don't flag "invalid supervisor" errors for name-based format
-            // because a supervisor that doesn't match any name is treated as a root node
-            // (e.g., "Board of Directors" is a valid supervisor for the CEO even though
-            // there's no person with that name in the org)
-          } else {
-            // Validate id/parentId format (or mixed format with both id and supervisor)
-            // Build set of valid IDs: explicit IDs + emails (as potential auto-generated IDs)
-            const nodeIds = new Set<string>();
-            for (const item of parsed as any[]) {
-              if (item.id !== undefined && item.id !== null) {
-                nodeIds.add(String(item.id));
-              }
-              // Also add email as a valid ID (since it can be auto-generated)
-              if (item.email) {
-                nodeIds.add(String(item.email).toLowerCase());
-              }
-            }
-            
-            // Skip multiple roots check when using supervisor-based resolution
-            // (nodes without parentId will have it resolved from supervisor field)
-            const hasSupervisorFields = parsed.some((item: any) => 
-              this.supervisorFields.some(field => item[field] !== undefined)
-            );
-            
-            if (!hasSupervisorFields) {
-              // Only check for multiple roots if not using supervisor-based resolution
-              const rootNodes = (parsed as any[]).filter((item: any) => 
-                item.parentId === null || item.parentId === undefined
-              );
-              
-              if (rootNodes.length > 1) {
-                // Mark all root nodes after the first as errors
-                for (let i = 1; i < rootNodes.length; i++) {
-                  const item = rootNodes[i];
-                  const itemIdPattern = new RegExp(`^-\\s*id:\\s*${item.id}\\s*$`, 'm');
-                  const parentIdPattern = new RegExp(`parentId:\\s*null`, 'm');
-                  
-                  const itemMatch = content.match(itemIdPattern);
-                  let errorPos = 0;
-                  let errorEnd = content.length;
-                  
-                  if (itemMatch && itemMatch.index !== undefined) {
-                    const afterId = content.substring(itemMatch.index);
-                    const parentIdMatch = afterId.match(parentIdPattern);
-                    if (parentIdMatch && parentIdMatch.index !== undefined) {
-                      errorPos = itemMatch.index + parentIdMatch.index;
-                      errorEnd = errorPos + parentIdMatch[0].length;
-                    } else {
-                      // If no explicit parentId: null, mark the id line
-                      errorPos = itemMatch.index;
-                      errorEnd = itemMatch.index + itemMatch[0].length;
-                    }
-                  }
-                  
-                  const lineNumber = content.substring(0, errorPos).split('\n').length;
-                  
-                  diagnostics.push({
-                    from: errorPos,
-                    to: errorEnd,
-                    severity: 'error',
-                    message: `Line ${lineNumber}: Multiple root nodes detected - only one node can have parentId: null (node id: ${item.id})`
-                  });
-                }
-              }
-            }
-            
-            // Check for missing/invalid parentId references (only if explicitly set)
-            for (const item of parsed as any[]) {
-              const parentId = item.parentId;
-              // parentId should be null for root, or reference an existing node (by id or email)
-              if (parentId !== null && parentId !== undefined && 
-                  !nodeIds.has(String(parentId)) && !nodeIds.has(String(parentId).toLowerCase())) {
-                // Find the line with this item's parentId
-                const itemIdPattern = new RegExp(`^-\\s*id:\\s*${item.id}\\s*$`, 'm');
-                const parentIdPattern = new RegExp(`parentId:\\s*${parentId}`, 'm');
-                
-                // Find the parentId line for this item
-                const itemMatch = content.match(itemIdPattern);
-                let errorPos = 0;
-                let errorEnd = content.length;
-                
-                if (itemMatch && itemMatch.index !== undefined) {
-                  // Look for parentId after this item's id
-                  const afterId = content.substring(itemMatch.index);
-                  const parentIdMatch = afterId.match(parentIdPattern);
-                  if (parentIdMatch && parentIdMatch.index !== undefined) {
-                    errorPos = itemMatch.index + parentIdMatch.index;
-                    errorEnd = errorPos + parentIdMatch[0].length;
-                  }
-                }
-                
-                // Calculate line number for the error message
-                const lineNumber = content.substring(0, errorPos).split('\n').length;
-                
-                diagnostics.push({
-                  from: errorPos,
-                  to: errorEnd,
-                  severity: 'error',
-                  message: `Line ${lineNumber}: Invalid parentId "${parentId}" - no node with this id exists`
-                });
-              }
-            }
-          }
-        }
-      } catch (e: unknown) {
-        if (e instanceof jsyaml.YAMLException) {
-          // js-yaml provides mark with line and column info
-          const mark = e.mark;
-          if (mark) {
-            // Convert line/column to document position
-            const line = Math.min(mark.line + 1, view.state.doc.lines);
-            const lineInfo = view.state.doc.line(line);
-            const from = lineInfo.from + Math.min(mark.column, lineInfo.length);
-            const to = lineInfo.to;
-            
-            diagnostics.push({
-              from,
-              to,
-              severity: 'error',
-              message: `Line ${line}: ${e.reason || e.message}`
-            });
-          } else {
-            // Fallback if no mark is available
-            diagnostics.push({
-              from: 0,
-              to: Math.min(50, content.length),
-              severity: 'error',
-              message: e.message
-            });
-          }
-        } else if (e instanceof Error) {
-          diagnostics.push({
-            from: 0,
-            to: Math.min(50, content.length),
-            severity: 'error',
-            message: e.message
-          });
-        }
-      }
+      const doc = this.parseDocument(view.state.doc.toString());
+      const diagnostics: Diagnostic[] = doc.diagnostics.map(d => ({
+        from: d.from,
+        to: d.to,
+        severity: d.severity,
+        message: d.message
+      }));
       
       // Update the error banner with all diagnostics
       this.updateErrorBanner(diagnostics, view);
+
+      if (doc.hasErrors) {
+        this.emit('parseError', { diagnostics: doc.diagnostics });
+      }
       
       return diagnostics;
     }, { delay: 300 });
 
+    // CodeMirror's history holds every document change; the shared history
+    // mirrors its steps with labels and adds chart-only operations (column
+    // layout), so the shortcuts go through it to keep one timeline. Listed
+    // before basicSetup so it takes the keys from CodeMirror's own keymap.
+    const historyKeymap = keymap.of([
+      { key: 'Mod-z', run: () => { this.undo(); return true; } },
+      { key: 'Mod-Shift-z', run: () => { this.redo(); return true; } },
+      { key: 'Mod-y', run: () => { this.redo(); return true; } },
+    ]);
+
+    // Schema-aware suggestions for keys, people, options and card tags
+    const completionSource = ychartCompletions(text => this.parseDocument(text));
+
     const extensions = [
+      historyKeymap,
       basicSetup,
       yaml(),
+      EditorState.languageData.of(() => [{ autocomplete: completionSource }]),
+      ychartHover(text => this.parseDocument(text)),
+      ychartGoToDefinition(text => this.parseDocument(text), line => this.jumpToLine(line)),
       lintGutter(),
       yamlLinter,
       EditorView.updateListener.of((update) => {
         if (update.docChanged && !this.isUpdatingProgrammatically) {
           this.renderChart();
+
+          if (!this.history.isApplying()) {
+            this.syncEditorHistory(update);
+          }
+        }
+        if (update.docChanged) {
+          this.emit('dataChange', { yaml: update.state.doc.toString() });
+        }
+        // Follow the cursor in the chart when the user moves it (not while typing)
+        if (update.selectionSet && !update.docChanged && update.transactions.some(tr => tr.isUserEvent('select'))) {
+          this.scheduleChartSelectionSync();
         }
       })
     ];
@@ -2496,6 +2859,7 @@ class YChartEditor {
       })
     );
 
+    this.editorExtensions = extensions;
     this.editor = new EditorView({
       doc: this.initialData,
       extensions,
@@ -2667,11 +3031,13 @@ class YChartEditor {
     const doc = this.editor.state.doc;
     const line = doc.line(Math.min(lineNumber, doc.lines));
     
-    // Set cursor to the start of the line and scroll it into view
+    // Set cursor to the start of the line and scroll it into view; as a
+    // selection event the chart selects the card of the item it lands in
     this.editor.dispatch({
       selection: { anchor: line.from },
       scrollIntoView: true,
-      effects: EditorView.scrollIntoView(line.from, { y: 'center' })
+      effects: EditorView.scrollIntoView(line.from, { y: 'center' }),
+      userEvent: 'select'
     });
 
     // Focus the editor
@@ -2694,6 +3060,21 @@ class YChartEditor {
         event.preventDefault();
         this.focusFloatingSearch();
       }
+
+      // Cmd/Ctrl + Z / Cmd/Ctrl + Shift + Z (or Y) to undo/redo while the chart has focus
+      // (the editor handles these through its own keymap)
+      // Text fields inside the chart (search, node editor) keep their native undo
+      const target = event.target as HTMLElement;
+      if ((event.metaKey || event.ctrlKey) && this.chartContainer?.contains(target) && !target.closest('input, textarea, select')) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          this.undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault();
+          this.redo();
+        }
+      }
     });
   }
 
@@ -2737,336 +3118,107 @@ class YChartEditor {
   private scrollToSelectedNode(): void {
     if (!this.editor || !this.orgChart) return;
 
-    // Get the selected node ID from the org chart
-    const chartState = this.orgChart.getChartState();
-    const selectedNodeId = chartState?.selectedNodeId;
-    
-    if (!selectedNodeId) {
-      console.log('No node selected');
-      return;
+    const selectedNodeId = this.orgChart.getChartState()?.selectedNodeId;
+    if (selectedNodeId === null || selectedNodeId === undefined) return;
+
+    if (this.revealNodeInEditor(selectedNodeId)) {
+      this.editor.focus();
     }
+  }
 
-    console.log('Finding node with ID:', selectedNodeId);
+  /**
+   * Move the editor cursor to the YAML item of a node, located with the
+   * parsed source positions, and scroll it to the middle. Does nothing when
+   * the cursor is already inside that item. Returns whether the item exists.
+   */
+  private revealNodeInEditor(nodeId: string | number): boolean {
+    if (!this.editor) return false;
 
-    const content = this.editor.state.doc.toString();
-    
-    // Find the position of the node entry in YAML
-    // Look for patterns like "- id: 5" or "  id: 5" at the start of a line
-    const idPattern = new RegExp(`^-?\\s*id:\\s*${selectedNodeId}\\s*$`, 'm');
-    const match = content.match(idPattern);
-    
-    if (match && match.index !== undefined) {
-      // Find the start of the YAML block (look backwards for "- id:" pattern)
-      let blockStart = match.index;
-      
-      // Look backwards to find the start of the list item (the "- " before id)
-      const beforeMatch = content.substring(0, match.index);
-      const lastDash = beforeMatch.lastIndexOf('\n- ');
-      if (lastDash !== -1) {
-        blockStart = lastDash + 1; // +1 to skip the newline
-      }
+    const doc = this.parseDocument(this.editor.state.doc.toString());
+    const index = doc.nodes.findIndex(node => String(node.id) === String(nodeId));
+    if (index === -1) return false;
 
-      // Calculate the line number
-      const lineNumber = content.substring(0, blockStart).split('\n').length;
-      
-      // Scroll to the line and highlight it
-      const line = this.editor.state.doc.line(lineNumber);
-      
+    const { from } = doc.itemRange(index);
+    if (doc.itemIndexAt(this.editor.state.selection.main.head) !== index) {
+      // Plain dispatch (no select user event), so the chart isn't synced back
       this.editor.dispatch({
-        selection: { anchor: line.from, head: line.to },
-        scrollIntoView: true
+        selection: { anchor: from },
+        effects: EditorView.scrollIntoView(from, { y: 'center' })
       });
-      
-      // Focus the editor
-      this.editor.focus();
-      
-      console.log(`Scrolled to node ${selectedNodeId} at line ${lineNumber}`);
-    } else {
-      console.log(`Node with ID ${selectedNodeId} not found in YAML`);
-    }
-  }
-
-  private parseFrontMatter(content: string): FrontMatter {
-    if (content.startsWith('---')) {
-      const parts = content.split('---');
-      if (parts.length >= 3) {
-        const frontMatter = parts[1].trim();
-        const yamlData = parts.slice(2).join('---').trim();
-        
-        try {
-          const parsed = jsyaml.load(frontMatter) as any;
-          const options = parsed.options || {};
-          const cardDef = parsed.card || null;
-          const schemaDef: SchemaDefinition = {};
-          
-          if (parsed.schema && typeof parsed.schema === 'object') {
-            for (const [fieldName, fieldDef] of Object.entries(parsed.schema)) {
-              if (typeof fieldDef === 'string') {
-                const fieldSchema = this.parseSchemaField(fieldDef as string, fieldName);
-                schemaDef[fieldName] = fieldSchema;
-                
-                // If this field has aliases, also add the aliases to schema
-                if (fieldSchema.aliases && fieldSchema.aliases.length > 0) {
-                  for (const alias of fieldSchema.aliases) {
-                    schemaDef[alias] = { ...fieldSchema, aliases: [fieldName] };
-                  }
-                }
-              }
-            }
-            
-            // Update supervisor fields based on schema aliases for 'supervisor' field
-            if (schemaDef.supervisor && schemaDef.supervisor.aliases) {
-              this.supervisorFields = ['supervisor', ...schemaDef.supervisor.aliases];
-            }
-          }
-          
-          return { options, schema: schemaDef, card: cardDef, data: yamlData };
-        } catch (error) {
-          // Silently handle - linter will display errors in the editor
-          return { options: {}, schema: {}, card: undefined, data: content };
-        }
-      }
     }
-    return { options: {}, schema: {}, card: undefined, data: content };
+    return true;
   }
 
-  /**
-   * Parse a schema field definition string.
-   * 
-   * Supported formats:
-   *   1. Basic: "string | required"
-   *   2. Bracket aliases: "[ supervisor | leader | manager ] string | optional"
-   *   3. Alias keyword: "string | optional | alias: leader, manager, reports_to"
-   *   4. Aliases array: "string | optional | aliases[leader, manager]"
-   * 
-   * Examples:
-   *   - "string | required" -> type: string, required: true
-   *   - "string | optional" -> type: string, required: false
-   *   - "[ supervisor | leader | manager ]" -> aliases: ['leader', 'manager']
-   *   - "string | optional | alias: leader, manager" -> aliases: ['leader', 'manager']
-   *   - "string | optional | aliases[leader, manager]" -> aliases: ['leader', 'manager']
-   */
-  private parseSchemaField(fieldDefinition: string, _fieldName?: string): FieldSchema {
-    let aliases: string[] | undefined;
-    let workingDef = fieldDefinition;
-    
-    // Check for bracket alias syntax: [ field1 | field2 | field3 ]
-    const bracketMatch = workingDef.match(/^\s*\[\s*(.+?)\s*\]\s*(.*)$/);
-    if (bracketMatch) {
-      const aliasesStr = bracketMatch[1];
-      workingDef = bracketMatch[2];
-      
-      // Parse aliases (split by |)
-      const aliasParts = aliasesStr.split('|').map(p => p.trim()).filter(p => p);
-      aliases = aliasParts.slice(1); // First one is the primary field name
-    }
-    
-    // Check for "alias:" or "aliases:" keyword syntax
-    // e.g., "string | optional | alias: leader, manager, reports_to"
-    const aliasKeywordMatch = workingDef.match(/\|\s*alias(?:es)?:\s*([^|]+)/i);
-    if (aliasKeywordMatch) {
-      const aliasStr = aliasKeywordMatch[1];
-      const parsedAliases = aliasStr.split(',').map(a => a.trim()).filter(a => a);
-      aliases = aliases ? [...aliases, ...parsedAliases] : parsedAliases;
-      // Remove the alias part from working definition
-      workingDef = workingDef.replace(/\|\s*alias(?:es)?:\s*[^|]+/i, '');
-    }
-    
-    // Check for "aliases[...]" syntax
-    // e.g., "string | optional | aliases[leader, manager]"
-    const aliasArrayMatch = workingDef.match(/\|\s*aliases?\s*\[\s*([^\]]+)\s*\]/i);
-    if (aliasArrayMatch) {
-      const aliasStr = aliasArrayMatch[1];
-      // Handle both quoted and unquoted values
-      const parsedAliases = aliasStr
-        .split(',')
-        .map(a => a.trim().replace(/^["']|["']$/g, '')) // Remove quotes
-        .filter(a => a);
-      aliases = aliases ? [...aliases, ...parsedAliases] : parsedAliases;
-      // Remove the alias part from working definition
-      workingDef = workingDef.replace(/\|\s*aliases?\s*\[[^\]]+\]/i, '');
-    }
-    
-    // Parse remaining parts for type, required, etc.
-    const parts = workingDef.split('|').map(p => p.trim()).filter(p => p);
-    const type = parts.find(p => !['required', 'optional', 'missing'].includes(p.toLowerCase())) || 'string';
-    
-    return {
-      type,
-      required: parts.some(p => p.toLowerCase() === 'required'),
-      missing: parts.some(p => p.toLowerCase() === 'missing'),
-      aliases: aliases && aliases.length > 0 ? aliases : undefined
-    };
+  /** Sync the chart to the cursor once it settles, so arrowing through items doesn't animate every step */
+  private scheduleChartSelectionSync(): void {
+    if (this.selectionSyncTimer) clearTimeout(this.selectionSyncTimer);
+    this.selectionSyncTimer = setTimeout(() => {
+      this.selectionSyncTimer = null;
+      this.selectNodeAtCursor();
+    }, 150);
   }
 
   /**
-   * Escape special regex characters in a string for safe use in RegExp constructor.
+   * Select and centre the card of the YAML item under the editor cursor. The
+   * chart's own onNodeSelect isn't called, so the editor isn't moved back.
    */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  }
-
-  private renderCardElement(element: CardElement, data: any): string {
-    const tagName = Object.keys(element)[0];
-    const config = element[tagName];
-
-    // If config is a string, it's simple content
-    if (typeof config === 'string') {
-      // Replace variables like $name$ with actual data
-      const content = this.replaceVariables(config, data);
-      
-      // Add word-break style to span elements
-      if (tagName === 'span') {
-        return `<${tagName} style="word-break:break-all">${content}</${tagName}>`;
-      }
-      
-      return `<${tagName}>${content}</${tagName}>`;
-    }
+  private selectNodeAtCursor(): void {
+    if (!this.editor || !this.orgChart || this.currentView !== 'hierarchy') return;
 
-    // Otherwise, it's a CardConfig object
-    const attrs: string[] = [];
-    let content = '';
-    let children = '';
-
-    if (config.class) {
-      attrs.push(`class="${config.class}"`);
-    }
-
-    if (config.style) {
-      // Add word-break to existing style for span elements
-      if (tagName === 'span') {
-        const existingStyle = config.style.trim();
-        const separator = existingStyle.endsWith(';') ? '' : ';';
-        attrs.push(`style="${existingStyle}${separator}word-break:break-all"`);
-      } else {
-        attrs.push(`style="${config.style}"`);
-      }
-    } else if (tagName === 'span') {
-      // Add word-break style if no style exists
-      attrs.push(`style="word-break:break-all"`);
-    }
+    const attrs = this.orgChart.getChartState();
+    if (!attrs.root) return;
 
-    if (config.content) {
-      content = this.replaceVariables(config.content, data);
-    }
+    const doc = this.parseDocument(this.editor.state.doc.toString());
+    const index = doc.itemIndexAt(this.editor.state.selection.main.head);
+    const node = index === -1 ? undefined : doc.nodes[index];
+    if (!node) return;
 
-    if (config.children && Array.isArray(config.children)) {
-      children = config.children
-        .map(child => this.renderCardElement(child, data))
-        .join('');
-    }
+    // Nodes left out of the chart (e.g. reporting cycles) have no card
+    const chartNode = attrs.allNodes?.find((d: any) => String(d.data.id) === String(node.id));
+    if (!chartNode) return;
 
-    const attrsStr = attrs.length > 0 ? ' ' + attrs.join(' ') : '';
-    return `<${tagName}${attrsStr}>${content}${children}</${tagName}>`;
-  }
+    const nodeId = attrs.nodeId(chartNode.data);
+    if (attrs.selectedNodeId === nodeId) return;
 
-  private replaceVariables(template: string, data: any): string {
-    return template.replace(/\$(\w+)\$/g, (_match, fieldName) => {
-      const value = data[fieldName];
-      // Return empty string for null, undefined, or empty values
-      if (value === null || value === undefined || value === '') {
-        return '';
-      }
-      return String(value);
-    });
+    attrs.selectedNodeId = nodeId;
+    this.orgChart.setCentered(nodeId).render();
+    this.emit('nodeSelect', { id: nodeId, data: chartNode.data });
   }
 
   /**
-   * Resolve missing parentId values by looking up supervisor names.
-   * This allows YAML data to omit parentId if a supervisor field contains
-   * the name of another node. Also auto-generates missing id values.
-   * 
-   * Supports multiple supervisor field aliases configurable via schema:
-   *   supervisor: [ supervisor | leader | manager | reports_to ]
-   * Or via .supervisorLookup() fluent API.
+   * Nodes handed to the chart. With `forest: synthetic-root` the top-level
+   * nodes are grouped under a synthetic node built from `forestRoot`; side by
+   * side forests need nothing here, the chart lays out several roots itself.
    */
-  private resolveMissingParentIds(data: any[]): any[] {
-    // First pass: auto-generate missing ids
-    // Detect if existing IDs are numeric or string-based (UUIDs, etc.)
-    let hasNumericIds = false;
-    let maxNumericId = 0;
-    const existingIds = new Set<string>();
-
-    for (const item of data) {
-      if (item.id !== undefined && item.id !== null) {
-        existingIds.add(String(item.id));
-        const numId = typeof item.id === 'number' ? item.id : parseInt(String(item.id), 10);
-        if (!isNaN(numId) && String(numId) === String(item.id)) {
-          hasNumericIds = true;
-          if (numId > maxNumericId) {
-            maxNumericId = numId;
-          }
-        }
-      }
+  private getChartNodes(doc: OrgDocument, options: YChartOptions): OrgNode[] {
+    // Nodes in (or below) a reporting cycle can't be laid out as a tree
+    const nodes = doc.acyclicNodes;
+    if (doc.forest !== 'synthetic-root' || nodes.length === 0) {
+      return nodes;
     }
 
-    // Helper to generate a unique ID
-    let autoIdCounter = maxNumericId;
-    const generateId = (item: any): string | number => {
-      // Prefer email as ID if available
-      if (item.email) {
-        const emailId = String(item.email).toLowerCase();
-        if (!existingIds.has(emailId)) {
-          existingIds.add(emailId);
-          return emailId;
-        }
-      }
-      
-      if (hasNumericIds || existingIds.size === 0) {
-        // Use numeric IDs if existing IDs are numeric or if no IDs exist
-        autoIdCounter++;
-        return autoIdCounter;
-      } else {
-        // Generate a simple unique string ID (pseudo-UUID style)
-        let newId: string;
-        do {
-          newId = `auto-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        } while (existingIds.has(newId));
-        existingIds.add(newId);
-        return newId;
-      }
+    const roots = new Set(doc.roots);
+    const syntheticRoot: OrgNode = {
+      [this.nameField]: 'Organization',
+      ...options.forestRoot,
+      id: FOREST_ROOT_ID,
+      parentId: null,
+      _syntheticRoot: true,
     };
+    return [
+      syntheticRoot,
+      ...nodes.map(node => roots.has(node) ? { ...node, parentId: FOREST_ROOT_ID } : node),
+    ];
+  }
 
-    // Assign ids to items that don't have them
-    const dataWithIds = data.map((item) => {
-      if (item.id === undefined || item.id === null) {
-        return { ...item, id: generateId(item), _autoGeneratedId: true };
-      }
-      return item;
-    });
-
-    // Build a map of name -> id for quick lookup
-    const nameToId = new Map<string, any>();
-    for (const item of dataWithIds) {
-      const name = item[this.nameField];
-      if (name) {
-        // Store the name (normalized to lowercase for case-insensitive matching)
-        nameToId.set(String(name).toLowerCase(), item.id);
-      }
-    }
-
-    // Process each item and resolve missing parentId
-    return dataWithIds.map(item => {
-      // Skip if parentId is already set (including explicit null for root nodes)
-      if (item.parentId !== undefined) {
-        return item;
-      }
-
-      // Try to resolve parentId from supervisor field aliases
-      for (const field of this.supervisorFields) {
-        const supervisorName = item[field];
-        if (supervisorName) {
-          const normalizedName = String(supervisorName).toLowerCase();
-          const parentId = nameToId.get(normalizedName);
-          if (parentId !== undefined) {
-            // Return a new object with the resolved parentId
-            return { ...item, parentId };
-          }
-        }
-      }
-
-      // No parentId and couldn't resolve from supervisor - treat as root node
-      return { ...item, parentId: null };
+  /**
+   * Parse editor content with the configured supervisor lookup fields.
+   */
+  private parseDocument(content: string): OrgDocument {
+    return OrgDocument.parse(content, {
+      supervisorFields: this.supervisorFields,
+      nameField: this.nameField,
+      forest: this.defaultOptions.forest
     });
   }
 
@@ -3095,6 +3247,7 @@ class YChartEditor {
   }
 
   private renderChart(): void {
+    let doc: OrgDocument | null = null;
     try {
       if (this.forceGraph) {
         this.forceGraph.stop();
@@ -3104,20 +3257,21 @@ class YChartEditor {
       if (!this.editor) return;
 
       const yamlContent = this.editor.state.doc.toString();
-      const { options: userOptions, schema: schemaDef, card: cardDef, data: yamlData } = this.parseFrontMatter(yamlContent);
-      const options = { ...this.defaultOptions, ...userOptions };
-      let parsedData = jsyaml.load(yamlData);
+      doc = this.parseDocument(yamlContent);
+      const options = { ...this.defaultOptions, ...doc.options };
 
-      // Store current schema and card template for template access
-      this.currentSchema = schemaDef;
-      this.cardTemplate = cardDef || null;
+      // Store current schema and card templates for template access
+      this.currentSchema = doc.schema;
+      this.cardTemplate = doc.card || null;
+      this.cardTemplates = doc.cards || null;
 
-      if (!Array.isArray(parsedData)) {
+      if (!doc.items) {
         throw new Error('YAML must be an array');
       }
 
-      // Resolve missing parentId values by looking up supervisor names
-      parsedData = this.resolveMissingParentIds(parsedData);
+      // Nodes have missing parentId values resolved from supervisor names
+      const parsedData = this.getChartNodes(doc, options);
+      this.dottedLineConnections = doc.connections;
 
       if (!this.orgChart) {
         this.orgChart = new OrgChart();
@@ -3141,9 +3295,45 @@ class YChartEditor {
         })
         .onNodeDetailsClick((d: any) => {
           this.showNodeDetails(d.data);
+          this.emit('nodeDetails', { data: d.data });
+        })
+        .onNodeDoubleClick((d: any) => {
+          if (!d.data._syntheticRoot) this.showNodeEditor(d.data);
+        })
+        .onNodeContextMenu((event: MouseEvent, d: any) => {
+          if (!d.data._syntheticRoot) this.showNodeContextMenu(event, d.data);
+        })
+        .onNodeMove((nodeData: any, newParentData: any) => {
+          if (this.updateYAMLAfterMove(nodeData, newParentData)) {
+            this.emit('move', { node: nodeData, newParent: newParentData });
+          }
+        })
+        .onNodeMoveRejected((nodeData: any, targetData: any) => {
+          this.showEditRejected(`${targetData[this.nameField] ?? targetData.id} reports to this node, so it can't become its manager`, nodeData);
+        })
+        .onNodeSelect((nodeId: string) => {
+          const node = this.orgChart.getChartState().allNodes
+            ?.find((n: any) => String(n.data.id) === String(nodeId));
+          if (node && !node.data._syntheticRoot) this.revealNodeInEditor(nodeId);
+          this.emit('nodeSelect', { id: nodeId, data: node ? node.data : null });
         })
-        .nodeContent((d: any) => this.getNodeContent(d))
+        .onExpandOrCollapse((d: any) => {
+          this.emit('expandCollapse', { id: d.data.id, data: d.data, expanded: !!d.children });
+        })
+        .nodeContent((d: any) => {
+          try {
+            return this.getNodeContent(d);
+          } catch (error) {
+            throw new TemplateRenderError(d.data.id, error);
+          }
+        })
+        .connections(this.getVisibleConnections())
+        .defs((state: any, visibleConnections: any[]) => this.renderConnectionDefs(state, visibleConnections))
+        .connectionsUpdate((d: OrgConnection, i: number, paths: SVGPathElement[]) => this.styleConnection(paths[i], d))
         .render();
+
+      this.lastGoodRender = { nodes: parsedData, schema: doc.schema, card: this.cardTemplate, cards: this.cardTemplates, connections: doc.connections };
+      this.hideRenderErrorOverlay();
       
       // Set up pattern persistence observer (always, it will only act if bgPattern is set)
       this.setupPatternPersistence();
@@ -3171,7 +3361,178 @@ class YChartEditor {
       
       this.currentView = 'hierarchy';
     } catch (error) {
-      // Silently handle - linter will display errors in the editor
+      // YAML syntax errors are reported by the linter; render failures get the overlay
+      if (doc && doc.items) {
+        this.handleRenderFailure(error, doc);
+      }
+    }
+  }
+
+  /**
+   * Explain a failed render and put the last good chart back, since a
+   * half-finished d3 update can leave the canvas empty or inconsistent.
+   */
+  private handleRenderFailure(error: unknown, doc: OrgDocument): void {
+    const info = describeRenderError(error, doc);
+    console.error(`${info.title}: ${info.message}`, error);
+
+    if (this.currentView === 'hierarchy') {
+      this.restoreLastGoodRender();
+    }
+    this.showRenderErrorOverlay(info);
+    this.emit('renderError', info);
+  }
+
+  private restoreLastGoodRender(): void {
+    if (!this.orgChart || !this.lastGoodRender) return;
+
+    const { nodes, schema, card, cards, connections } = this.lastGoodRender;
+    this.currentSchema = schema;
+    this.cardTemplate = card;
+    this.cardTemplates = cards;
+    this.dottedLineConnections = connections;
+
+    try {
+      this.orgChart.data(nodes).connections(this.getVisibleConnections()).render();
+    } catch (restoreError) {
+      // The last good state can fail too when a custom template changed since
+      console.error('Could not restore the last rendered chart:', restoreError);
+    }
+  }
+
+  /**
+   * Show what went wrong on top of the chart pane: the error category, the
+   * node it concerns and a link to that node's line in the YAML.
+   */
+  private showRenderErrorOverlay(info: RenderErrorInfo): void {
+    if (!this.chartContainer) return;
+
+    this.hideRenderErrorOverlay();
+
+    const overlay = document.createElement('div');
+    overlay.setAttribute('data-id', `ychart-render-error-${this.instanceId}`);
+    overlay.setAttribute('role', 'alert');
+    overlay.style.cssText = `
+      position: absolute;
+      top: var(--yc-spacing-3xl);
+      left: 50%;
+      transform: translateX(-50%);
+      background: var(--yc-color-overlay-bg);
+      backdrop-filter: var(--yc-backdrop-blur);
+      border-radius: var(--yc-border-radius-xl);
+      border: var(--yc-border-width-thin) solid var(--yc-color-error-border);
+      border-left: 4px solid var(--yc-color-error-red-light);
+      padding: var(--yc-spacing-xl) var(--yc-spacing-2xl);
+      box-shadow: var(--yc-shadow-2xl);
+      z-index: var(--yc-z-index-detail-panel);
+      max-width: min(480px, 90%);
+      font-family: var(--yc-font-family-base);
+      font-size: var(--yc-font-size-base);
+      color: var(--yc-color-text-primary);
+    `;
+
+    const header = document.createElement('div');
+    header.style.cssText = 'display: flex; align-items: center; gap: var(--yc-spacing-md); margin-bottom: var(--yc-spacing-sm);';
+
+    const title = document.createElement('div');
+    title.textContent = `⚠️ ${info.title}`;
+    title.style.cssText = 'flex: 1; font-weight: var(--yc-font-weight-semibold); color: var(--yc-color-error-red-dark);';
+    header.appendChild(title);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = '×';
+    closeBtn.setAttribute('aria-label', 'Dismiss');
+    closeBtn.style.cssText = `
+      background: transparent;
+      border: none;
+      font-size: var(--yc-font-size-xl);
+      line-height: 1;
+      cursor: pointer;
+      color: var(--yc-color-text-secondary);
+    `;
+    closeBtn.onclick = () => this.hideRenderErrorOverlay();
+    header.appendChild(closeBtn);
+    overlay.appendChild(header);
+
+    const message = document.createElement('div');
+    message.textContent = info.nodeName !== undefined
+      ? `${info.message} (node: ${info.nodeName})`
+      : info.message;
+    message.style.cssText = 'color: var(--yc-color-error-red-text); word-break: break-word;';
+    overlay.appendChild(message);
+
+    const footer = document.createElement('div');
+    footer.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: var(--yc-spacing-md);
+      margin-top: var(--yc-spacing-md);
+      font-size: var(--yc-font-size-sm);
+      color: var(--yc-color-text-secondary);
+    `;
+
+    if (info.line !== undefined) {
+      const line = info.line;
+      const jumpBtn = document.createElement('button');
+      jumpBtn.setAttribute('data-id', `ychart-render-error-jump-${this.instanceId}`);
+      jumpBtn.textContent = `Go to line ${line}`;
+      jumpBtn.style.cssText = `
+        background: var(--yc-color-error-red-light);
+        color: white;
+        border: none;
+        border-radius: var(--yc-border-radius-sm);
+        padding: 2px 8px;
+        font-size: var(--yc-font-size-xs);
+        font-weight: var(--yc-font-weight-semibold);
+        cursor: pointer;
+      `;
+      jumpBtn.onmouseover = () => { jumpBtn.style.background = 'var(--yc-color-error-red-dark)'; };
+      jumpBtn.onmouseleave = () => { jumpBtn.style.background = 'var(--yc-color-error-red-light)'; };
+      jumpBtn.onclick = () => this.revealLine(line);
+      footer.appendChild(jumpBtn);
+    }
+
+    if (this.lastGoodRender && this.currentView === 'hierarchy' && info.category !== 'rejected-edit') {
+      const note = document.createElement('span');
+      note.textContent = 'Showing the last chart that rendered.';
+      footer.appendChild(note);
+    }
+
+    if (footer.childElementCount > 0) {
+      overlay.appendChild(footer);
+    }
+
+    this.chartContainer.appendChild(overlay);
+    this.renderErrorOverlay = overlay;
+  }
+
+  /**
+   * Explain in the render error overlay why a chart edit was not written to
+   * the YAML. `nodeData` is the node the edit started from, if any.
+   */
+  private showEditRejected(message: string, nodeData?: any): void {
+    if (!this.editor) return;
+    const doc = this.parseDocument(this.editor.state.doc.toString());
+    const index = nodeData && doc.items ? this.findItemIndex(doc, nodeData) : -1;
+    this.showRenderErrorOverlay(describeRejectedEdit(message, doc, index));
+  }
+
+  private hideRenderErrorOverlay(): void {
+    if (this.renderErrorOverlay) {
+      this.renderErrorOverlay.remove();
+      this.renderErrorOverlay = null;
+    }
+  }
+
+  /** Jump to a line, opening the editor sidebar first if it is collapsed */
+  private revealLine(lineNumber: number): void {
+    const sidebar = document.getElementById(`ychart-editor-sidebar-${this.instanceId}`);
+    if (sidebar && sidebar.style.width === '0px') {
+      this.toggleEditor();
+      // Wait for the sidebar to expand before scrolling
+      setTimeout(() => this.jumpToLine(lineNumber), 350);
+    } else {
+      this.jumpToLine(lineNumber);
     }
   }
 
@@ -3181,11 +3542,12 @@ class YChartEditor {
       return this.customTemplate(d, this.currentSchema);
     }
     
-    // Priority 2: Use card template from YAML front matter if defined
-    if (this.cardTemplate && Array.isArray(this.cardTemplate)) {
-      const cardHtml = this.cardTemplate
-        .map(element => this.renderCardElement(element, d.data))
-        .join('');
+    // Priority 2: Use the node's card template from YAML front matter (`cards:` or `card:`) if defined
+    // Depth counts from the top of the chart, not from a synthetic forest root
+    const depth = d.depth - (this.orgChart?.getChartState().root?.data._syntheticRoot ? 1 : 0);
+    const template = selectCardTemplate(this.cardTemplates ?? undefined, this.cardTemplate ?? undefined, d.data, depth);
+    if (template && Array.isArray(template)) {
+      const cardHtml = sanitizeHtml(renderCard(template, d.data, this.currentSchema));
       
       return `
         <div style="width:${d.width}px;height:${d.height}px;padding:var(--yc-spacing-xl);background:var(--yc-color-text-inverse);border:var(--yc-border-width-medium) solid var(--yc-color-secondary);border-radius:var(--yc-border-radius-lg);box-sizing:border-box;position:relative">
@@ -3199,61 +3561,541 @@ class YChartEditor {
     return `
       <div style="width:${d.width}px;height:${d.height}px;padding:var(--yc-spacing-xl);background:var(--yc-color-text-inverse);border:var(--yc-border-width-medium) solid var(--yc-color-secondary);border-radius:var(--yc-border-radius-lg);box-sizing:border-box;display:flex;align-items:center;gap:var(--yc-spacing-xl);position:relative">
         <div class="details-btn" style="position:absolute;top:var(--yc-spacing-xs);right:var(--yc-spacing-xs);width:var(--yc-height-icon-sm);height:var(--yc-height-icon-sm);background:var(--yc-color-gray-300);border-radius:var(--yc-border-radius-full);display:flex;align-items:center;justify-content:center;cursor:pointer;font-size:var(--yc-font-size-sm);color:var(--yc-color-text-secondary);z-index:var(--yc-z-index-overlay);border:var(--yc-border-width-thin) solid var(--yc-color-gray-500);" title="Show Details" aria-label="Show Details" role="button" tabindex="0">ℹ</div>
+        ${sanitizeHtml(renderAvatar(photoOf(d.data, this.currentSchema), String(d.data.name || '')))}
         <div style="flex:1;min-width:0">
-          <div style="font-size:var(--yc-font-size-md);font-weight:var(--yc-font-weight-bold);color:var(--yc-color-text-primary);margin-bottom:var(--yc-spacing-xs);overflow:hidden;text-overflow:ellipsis;white-space:nowrap">${d.data.name || ''}</div>
-          <div style="font-size:var(--yc-font-size-sm);color:var(--yc-color-text-secondary);margin-bottom:2px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap">${d.data.title || ''}</div>
-          <div style="font-size:var(--yc-font-size-xs);color:var(--yc-color-gray-600);overflow:hidden;text-overflow:ellipsis;white-space:nowrap">${d.data.department || ''}</div>
+          <div style="font-size:var(--yc-font-size-md);font-weight:var(--yc-font-weight-bold);color:var(--yc-color-text-primary);margin-bottom:var(--yc-spacing-xs);overflow:hidden;text-overflow:ellipsis;white-space:nowrap">${escapeHtml(d.data.name || '')}</div>
+          <div style="font-size:var(--yc-font-size-sm);color:var(--yc-color-text-secondary);margin-bottom:2px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap">${escapeHtml(d.data.title || '')}</div>
+          <div style="font-size:var(--yc-font-size-xs);color:var(--yc-color-gray-600);overflow:hidden;text-overflow:ellipsis;white-space:nowrap">${escapeHtml(d.data.department || '')}</div>
         </div>
       </div>
     `;
   }
 
-  private showNodeDetails(data: any): void {
-    if (!this.detailsPanel) return;
+  /**
+   * Show an inline form for editing a node, built from the front matter
+   * schema. Fields use input types matching their schema type and required
+   * fields must be filled in; saving writes only the changed keys back to the
+   * node's YAML item.
+   */
+  private showNodeEditor(nodeData: any): void {
+    if (!this.chartContainer || !this.editor) return;
 
-    let html = '<div class="node-details-content" style="font-family:var(--yc-font-family-base);">';
-    html += `<h3 style="margin:0 0 var(--yc-spacing-3xl) 0;color:var(--yc-color-text-primary);">${data.name || 'Unknown'}</h3>`;
-    html += '<div style="display:grid;gap:var(--yc-spacing-md);">';
-    
-    for (const [key, value] of Object.entries(data)) {
-      if (key.startsWith('_') || key === 'picture') continue;
-      
-      const label = key.charAt(0).toUpperCase() + key.slice(1);
-      html += `
-        <div style="display:grid;grid-template-columns:120px 1fr;gap:var(--yc-spacing-md);">
-          <span style="font-weight:var(--yc-font-weight-semibold);color:var(--yc-color-text-secondary);">${label}:</span>
-          <span style="color:var(--yc-color-text-primary);">${value || 'N/A'}</span>
-        </div>
-      `;
+    this.hideNodeEditor();
+
+    const doc = this.parseDocument(this.editor.state.doc.toString());
+    const index = doc.items ? this.findItemIndex(doc, nodeData) : -1;
+    if (!doc.items || index === -1) {
+      console.error('Could not find node in YAML data');
+      return;
     }
-    
-    html += '</div>';
-    html += `<button onclick="document.getElementById('ychart-node-details-${this.instanceId}').style.display='none'" style="margin-top:var(--yc-spacing-3xl);padding:var(--yc-spacing-md) var(--yc-spacing-3xl);background:var(--yc-color-primary);color:white;border:none;border-radius:var(--yc-border-radius-sm);cursor:pointer;width:100%;">Close</button>`;
-    html += '</div>';
-    
-    this.detailsPanel.innerHTML = html;
-    this.detailsPanel.style.display = 'block';
-  }
 
-  private createDotPattern(): SVGDefsElement {
-    const defs = document.createElementNS("http://www.w3.org/2000/svg", "defs");
+    const item = doc.items[index];
+    const fields = this.getEditableFields(doc.schema, item);
+    const nodeName = item[doc.nameField] ?? nodeData.id;
 
-    const pattern = document.createElementNS(
-      "http://www.w3.org/2000/svg",
-      "pattern"
-    );
-    pattern.setAttribute("id", "dotPattern");
-    pattern.setAttribute("width", "20");
-    pattern.setAttribute("height", "20");
-    pattern.setAttribute("patternUnits", "userSpaceOnUse");
+    this.nodeEditor = document.createElement('div');
+    this.nodeEditor.setAttribute('data-id', `ychart-node-editor-${this.instanceId}`);
+    this.nodeEditor.setAttribute('role', 'dialog');
+    this.nodeEditor.setAttribute('aria-label', `Edit ${nodeName}`);
+    this.nodeEditor.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: var(--yc-color-overlay-bg);
+      backdrop-filter: var(--yc-backdrop-blur);
+      border-radius: var(--yc-border-radius-xl);
+      padding: var(--yc-spacing-3xl);
+      box-shadow: var(--yc-shadow-2xl);
+      z-index: var(--yc-z-index-detail-panel);
+      border: var(--yc-border-width-thin) solid var(--yc-color-shadow-light);
+      min-width: 320px;
+      max-height: 80%;
+      overflow-y: auto;
+      font-family: var(--yc-font-family-base);
+      font-size: var(--yc-font-size-base);
+      color: var(--yc-color-text-primary);
+    `;
 
-    const dot = document.createElementNS(
-      "http://www.w3.org/2000/svg",
-      "circle"
-    );
-    dot.setAttribute("cx", "5");
-    dot.setAttribute("cy", "5");
-    dot.setAttribute("r", "0.75");
+    const form = document.createElement('form');
+
+    const title = document.createElement('div');
+    title.textContent = `Edit ${nodeName}`;
+    title.style.cssText = `
+      font-size: var(--yc-font-size-xl);
+      font-weight: var(--yc-font-weight-semibold);
+      margin-bottom: var(--yc-spacing-xl);
+      text-align: center;
+    `;
+    form.appendChild(title);
+
+    const grid = document.createElement('div');
+    grid.style.cssText = 'display: grid; grid-template-columns: auto 1fr; gap: var(--yc-spacing-md); align-items: center;';
+
+    const inputs = new Map<string, HTMLInputElement | HTMLSelectElement>();
+    fields.forEach(({ key, label, schema }) => {
+      const inputId = `ychart-node-editor-${key}-${this.instanceId}`;
+
+      const labelEl = document.createElement('label');
+      labelEl.htmlFor = inputId;
+      labelEl.textContent = schema?.required ? `${label} *` : label;
+      labelEl.style.cssText = 'font-weight: var(--yc-font-weight-semibold); color: var(--yc-color-text-secondary);';
+
+      const input = this.createFieldInput(schema, item[key]);
+      input.id = inputId;
+      input.name = key;
+
+      inputs.set(key, input);
+      grid.appendChild(labelEl);
+      grid.appendChild(input);
+    });
+    form.appendChild(grid);
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; justify-content: flex-end; gap: var(--yc-spacing-md); margin-top: var(--yc-spacing-3xl);';
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.type = 'button';
+    cancelBtn.textContent = 'Cancel';
+    cancelBtn.style.cssText = `
+      padding: var(--yc-spacing-sm) var(--yc-spacing-xl);
+      border: 1px solid var(--yc-color-button-border);
+      border-radius: var(--yc-border-radius-md);
+      background: transparent;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = () => this.hideNodeEditor();
+
+    const saveBtn = document.createElement('button');
+    saveBtn.type = 'submit';
+    saveBtn.textContent = 'Save';
+    saveBtn.setAttribute('data-id', `ychart-node-editor-save-${this.instanceId}`);
+    saveBtn.style.cssText = `
+      padding: var(--yc-spacing-sm) var(--yc-spacing-xl);
+      border: none;
+      border-radius: var(--yc-border-radius-md);
+      background: var(--yc-color-primary);
+      color: white;
+      cursor: pointer;
+    `;
+
+    actions.appendChild(cancelBtn);
+    actions.appendChild(saveBtn);
+    form.appendChild(actions);
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      if (!form.reportValidity()) return;
+
+      const values: Record<string, string | boolean> = {};
+      inputs.forEach((input, key) => {
+        values[key] = input instanceof HTMLInputElement && input.type === 'checkbox' ? input.checked : input.value.trim();
+      });
+      this.saveNodeEdits(nodeData, fields, values);
+    });
+
+    this.nodeEditor.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') this.hideNodeEditor();
+    });
+
+    this.nodeEditor.appendChild(form);
+    this.chartContainer.appendChild(this.nodeEditor);
+
+    const firstInput = inputs.values().next().value;
+    if (firstInput) {
+      firstInput.focus();
+      if (firstInput instanceof HTMLInputElement && firstInput.type !== 'checkbox') firstInput.select();
+    }
+  }
+
+  private hideNodeEditor(): void {
+    if (this.nodeEditor && this.nodeEditor.parentNode) {
+      this.nodeEditor.parentNode.removeChild(this.nodeEditor);
+    }
+    this.nodeEditor = null;
+  }
+
+  /**
+   * Fields shown in the node editor: every schema field (using whichever alias
+   * the item already has), then any other scalar fields on the item. Ids and
+   * parent links are left to move mode.
+   */
+  private getEditableFields(schema: SchemaDefinition, item: any): { key: string; label: string; schema?: FieldSchema }[] {
+    const fields: { key: string; label: string; schema?: FieldSchema }[] = [];
+    const covered = new Set<string>(['id', 'parentId']);
+    const isScalar = (value: unknown) => value === undefined || value === null || value instanceof Date || typeof value !== 'object';
+
+    for (const [name, fieldSchema] of Object.entries(schema)) {
+      if (covered.has(name)) continue;
+      const names = [name, ...(fieldSchema.aliases ?? [])];
+      names.forEach(n => covered.add(n));
+
+      const key = names.find(n => item[n] !== undefined) ?? name;
+      if (isScalar(item[key])) {
+        fields.push({ key, label: name, schema: fieldSchema });
+      }
+    }
+
+    for (const [key, value] of Object.entries(item)) {
+      if (!covered.has(key) && !key.startsWith('_') && isScalar(value)) {
+        fields.push({ key, label: key });
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Input for a node editor field: a select for enum fields, a checkbox for
+   * boolean fields (or, without a schema, fields that hold a boolean) and an
+   * input of the matching type otherwise.
+   */
+  private createFieldInput(schema: FieldSchema | undefined, value: unknown): HTMLInputElement | HTMLSelectElement {
+    const style = `
+      padding: var(--yc-spacing-sm) var(--yc-spacing-lg);
+      border: 1px solid var(--yc-color-button-border);
+      border-radius: var(--yc-border-radius-md);
+      font-size: var(--yc-font-size-base);
+      background: var(--yc-color-bg-card);
+      min-width: 200px;
+    `;
+
+    if (schema?.type === 'enum' && schema.values) {
+      const select = document.createElement('select');
+      select.required = schema.required;
+      const current = this.formatFieldValue(value);
+      // Keep a value outside the list selectable so saving doesn't change it
+      const options = ['', ...schema.values];
+      if (!options.includes(current)) options.push(current);
+      options.forEach(optionValue => {
+        const option = document.createElement('option');
+        option.value = optionValue;
+        option.textContent = optionValue;
+        select.appendChild(option);
+      });
+      select.value = current;
+      select.style.cssText = style;
+      return select;
+    }
+
+    const input = document.createElement('input');
+    input.type = this.getInputType(schema, value);
+    input.required = !!schema?.required && input.type !== 'checkbox';
+    if (input.type === 'checkbox') {
+      input.checked = value === true;
+      input.style.cssText = 'justify-self: start;';
+      return input;
+    }
+
+    input.value = this.formatFieldValue(value);
+    if (input.type === 'number') input.step = 'any';
+    input.style.cssText = style;
+    return input;
+  }
+
+  private getInputType(schema: FieldSchema | undefined, value: unknown): string {
+    if (schema === undefined) {
+      return typeof value === 'boolean' ? 'checkbox' : 'text';
+    }
+    switch (schema.type) {
+      case 'boolean':
+        return 'checkbox';
+      case 'number':
+        return 'number';
+      case 'email':
+        return 'email';
+      case 'date':
+        return 'date';
+      case 'url':
+        return 'url';
+      case 'phone':
+      case 'tel':
+        return 'tel';
+      default:
+        return 'text';
+    }
+  }
+
+  private formatFieldValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    // js-yaml loads unquoted dates as Date objects
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    return String(value);
+  }
+
+  /**
+   * Turn an edited value back into the field's type: the schema type, or for
+   * enum fields and fields without a schema the type the value had before.
+   * Text that doesn't fit stays text, for the linter to flag.
+   */
+  private coerceFieldValue(raw: string | boolean, schema: FieldSchema | undefined, original: unknown): string | number | boolean {
+    if (typeof raw === 'boolean') return raw;
+
+    const type = schema && schema.type !== 'enum' ? schema.type : typeof original;
+    if (type === 'number' && !isNaN(Number(raw))) return Number(raw);
+    if (type === 'boolean' && (raw === 'true' || raw === 'false')) return raw === 'true';
+    return raw;
+  }
+
+  /**
+   * Write node editor changes to the node's YAML item. Renaming a node also
+   * updates supervisor references to the old name so the hierarchy is kept.
+   */
+  private saveNodeEdits(nodeData: any, fields: { key: string; schema?: FieldSchema }[], values: Record<string, string | boolean>): void {
+    try {
+      if (!this.editor) return;
+
+      const yamlContent = this.editor.state.doc.toString();
+      const doc = this.parseDocument(yamlContent);
+      const index = doc.items ? this.findItemIndex(doc, nodeData) : -1;
+
+      if (!doc.items || index === -1) {
+        console.error('Could not find node in YAML data');
+        return;
+      }
+
+      const item = doc.items[index];
+      const patch = new YamlPatch(yamlContent);
+
+      for (const { key, schema } of fields) {
+        const raw = values[key];
+        // An unchecked box for a missing field is no change
+        if (typeof raw === 'boolean' ? raw === (item[key] === true) : raw === this.formatFieldValue(item[key])) continue;
+
+        if (raw === '') {
+          if (item[key] !== undefined) patch.deleteField(index, key);
+          continue;
+        }
+
+        patch.setField(index, key, this.coerceFieldValue(raw, schema, item[key]));
+      }
+
+      const oldName = item[doc.nameField];
+      const newName = values[doc.nameField];
+      if (oldName !== undefined && typeof newName === 'string' && newName && newName !== String(oldName)) {
+        // Supervisor names resolve case-insensitively, so rename references in any case
+        const oldKey = String(oldName).toLowerCase();
+        doc.items.forEach((other, otherIndex) => {
+          if (otherIndex === index || !other) return;
+          doc.supervisorFields
+            .filter(field => typeof other[field] === 'string' && other[field].toLowerCase() === oldKey)
+            .forEach(field => patch.setField(otherIndex, field, newName));
+        });
+      }
+
+      const newContent = patch.toString();
+      this.hideNodeEditor();
+
+      if (newContent === yamlContent) return;
+
+      this.replaceDocument(newContent, `Edit ${newName || oldName || nodeData.id}`);
+      this.renderChart();
+      forceLinting(this.editor);
+    } catch (error) {
+      console.error('Error saving node edits:', error);
+      alert(`Failed to save changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Show the card context menu at the pointer: add a direct report or peer,
+   * edit, or delete the node (moving its reports up or deleting them too).
+   */
+  private showNodeContextMenu(event: MouseEvent, nodeData: any): void {
+    if (!this.chartContainer || !this.editor) return;
+
+    this.hideNodeContextMenu();
+
+    const doc = this.parseDocument(this.editor.state.doc.toString());
+    const index = doc.items ? this.findItemIndex(doc, nodeData) : -1;
+    if (index === -1) return;
+
+    const node = doc.nodes[index];
+    const reports = doc.nodes.filter(n => this.isParentOf(node, n)).length;
+    const subtreeSize = this.collectSubtree(doc, index).length - 1;
+    const hasParent = doc.nodes.some(n => this.isParentOf(n, node));
+
+    const actions: { id: string; label: string; disabled?: string; action: () => void }[] = [
+      { id: 'add-child', label: 'Add direct report', action: () => this.addNodeFromMenu(nodeData, 'child') },
+      {
+        id: 'add-sibling',
+        label: 'Add peer',
+        disabled: !hasParent && !doc.forest ? ROOT_PEER_REASON : undefined,
+        action: () => this.addNodeFromMenu(nodeData, 'sibling')
+      },
+      { id: 'edit', label: 'Edit…', action: () => this.showNodeEditor(nodeData) },
+    ];
+    if (reports === 0) {
+      actions.push({ id: 'delete', label: 'Delete', action: () => this.removeNodeItem(nodeData, 'reassign') });
+    } else {
+      actions.push({
+        id: 'delete-reassign',
+        label: `Delete, move ${reports} ${reports === 1 ? 'report' : 'reports'} up`,
+        // A root with several reports would leave several roots behind
+        disabled: !hasParent && reports > 1 && !doc.forest ? ROOT_REASSIGN_REASON : undefined,
+        action: () => this.removeNodeItem(nodeData, 'reassign')
+      });
+      actions.push({
+        id: 'delete-cascade',
+        label: `Delete with all reports (${subtreeSize})`,
+        action: () => this.removeNodeItem(nodeData, 'cascade')
+      });
+    }
+
+    const containerRect = this.chartContainer.getBoundingClientRect();
+
+    this.nodeContextMenu = document.createElement('div');
+    this.nodeContextMenu.setAttribute('data-id', `ychart-node-menu-${this.instanceId}`);
+    this.nodeContextMenu.setAttribute('role', 'menu');
+    this.nodeContextMenu.setAttribute('aria-label', `Actions for ${nodeData[this.nameField] ?? nodeData.id}`);
+    this.nodeContextMenu.style.cssText = `
+      position: absolute;
+      left: ${event.clientX - containerRect.left}px;
+      top: ${event.clientY - containerRect.top}px;
+      background: var(--yc-color-bg-card);
+      border-radius: var(--yc-border-radius-lg);
+      padding: var(--yc-spacing-xs) 0;
+      box-shadow: var(--yc-shadow-2xl);
+      z-index: var(--yc-z-index-detail-panel);
+      border: var(--yc-border-width-thin) solid var(--yc-color-shadow-light);
+      min-width: 200px;
+      font-family: var(--yc-font-family-base);
+      font-size: var(--yc-font-size-sm);
+    `;
+
+    const buttons: HTMLButtonElement[] = [];
+    actions.forEach(({ id, label, disabled, action }) => {
+      const item = document.createElement('button');
+      item.setAttribute('data-id', `ychart-node-menu-${id}-${this.instanceId}`);
+      item.setAttribute('role', 'menuitem');
+      item.textContent = label;
+      item.disabled = !!disabled;
+      if (disabled) item.title = disabled;
+      item.style.cssText = `
+        display: block;
+        width: 100%;
+        padding: var(--yc-spacing-sm) var(--yc-spacing-xl);
+        border: none;
+        background: transparent;
+        color: ${id.startsWith('delete') ? 'var(--yc-color-accent-red)' : 'var(--yc-color-text-primary)'};
+        text-align: left;
+        cursor: ${disabled ? 'default' : 'pointer'};
+        opacity: ${disabled ? '0.4' : '1'};
+        font-size: var(--yc-font-size-sm);
+      `;
+      item.onmouseenter = () => { if (!item.disabled) item.style.background = 'var(--yc-color-shadow-light)'; };
+      item.onmouseleave = () => item.style.background = 'transparent';
+      item.onclick = () => {
+        this.hideNodeContextMenu();
+        action();
+      };
+      buttons.push(item);
+      this.nodeContextMenu!.appendChild(item);
+    });
+
+    this.nodeContextMenu.addEventListener('keydown', (e) => {
+      const enabled = buttons.filter(b => !b.disabled);
+      const current = enabled.indexOf(document.activeElement as HTMLButtonElement);
+      if (e.key === 'Escape') {
+        this.hideNodeContextMenu();
+      } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        enabled[(current + step + enabled.length) % enabled.length]?.focus();
+      }
+    });
+
+    // Close when clicking anywhere outside the menu
+    const onPointerDown = (e: PointerEvent) => {
+      if (this.nodeContextMenu && !this.nodeContextMenu.contains(e.target as Node)) {
+        this.hideNodeContextMenu();
+      }
+    };
+    document.addEventListener('pointerdown', onPointerDown, true);
+    this.nodeContextMenuCleanup = () => document.removeEventListener('pointerdown', onPointerDown, true);
+
+    this.chartContainer.appendChild(this.nodeContextMenu);
+    buttons.find(b => !b.disabled)?.focus();
+  }
+
+  private hideNodeContextMenu(): void {
+    if (this.nodeContextMenuCleanup) {
+      this.nodeContextMenuCleanup();
+      this.nodeContextMenuCleanup = null;
+    }
+    if (this.nodeContextMenu && this.nodeContextMenu.parentNode) {
+      this.nodeContextMenu.parentNode.removeChild(this.nodeContextMenu);
+    }
+    this.nodeContextMenu = null;
+  }
+
+  private addNodeFromMenu(nodeData: any, relation: 'child' | 'sibling'): void {
+    const added = this.addNodeItem(nodeData, relation, {});
+    if (added) {
+      // Let the user fill in the new person's details straight away
+      this.showNodeEditor(added);
+    }
+  }
+
+  private showNodeDetails(data: any): void {
+    if (!this.detailsPanel) return;
+
+    const photo = photoOf(data, this.currentSchema);
+    let html = '<div class="node-details-content" style="font-family:var(--yc-font-family-base);">';
+    html += '<div style="display:flex;align-items:center;gap:var(--yc-spacing-xl);margin:0 0 var(--yc-spacing-3xl) 0;">';
+    html += sanitizeHtml(renderAvatar(photo, String(data.name || ''), 56));
+    html += `<h3 style="margin:0;color:var(--yc-color-text-primary);">${escapeHtml(data.name || 'Unknown')}</h3>`;
+    html += '</div>';
+    html += '<div style="display:grid;gap:var(--yc-spacing-md);">';
+    
+    for (const [key, value] of Object.entries(data)) {
+      // Photos are shown as the avatar above
+      if (key.startsWith('_') || key === 'picture' || key === 'photo' || this.currentSchema[key]?.type.toLowerCase() === 'photo') continue;
+      
+      const label = key.charAt(0).toUpperCase() + key.slice(1);
+      const text = value || 'N/A';
+      html += `
+        <div style="display:grid;grid-template-columns:120px 1fr;gap:var(--yc-spacing-md);">
+          <span style="font-weight:var(--yc-font-weight-semibold);color:var(--yc-color-text-secondary);">${escapeHtml(label)}:</span>
+          <span style="color:var(--yc-color-text-primary);">${value && isHtmlField(this.currentSchema, key) ? sanitizeHtml(String(value)) : escapeHtml(text)}</span>
+        </div>
+      `;
+    }
+    
+    html += '</div>';
+    html += '</div>';
+    
+    this.detailsPanel.innerHTML = html;
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = 'Close';
+    closeBtn.style.cssText = 'margin-top:var(--yc-spacing-3xl);padding:var(--yc-spacing-md) var(--yc-spacing-3xl);background:var(--yc-color-primary);color:white;border:none;border-radius:var(--yc-border-radius-sm);cursor:pointer;width:100%;';
+    closeBtn.onclick = () => {
+      if (this.detailsPanel) this.detailsPanel.style.display = 'none';
+    };
+    this.detailsPanel.firstElementChild?.appendChild(closeBtn);
+    this.detailsPanel.style.display = 'block';
+  }
+
+  private createDotPattern(): SVGDefsElement {
+    const defs = document.createElementNS("http://www.w3.org/2000/svg", "defs");
+
+    const pattern = document.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "pattern"
+    );
+    pattern.setAttribute("id", "dotPattern");
+    pattern.setAttribute("width", "20");
+    pattern.setAttribute("height", "20");
+    pattern.setAttribute("patternUnits", "userSpaceOnUse");
+
+    const dot = document.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "circle"
+    );
+    dot.setAttribute("cx", "5");
+    dot.setAttribute("cy", "5");
+    dot.setAttribute("r", "0.75");
     dot.setAttribute("fill", this.defaultOptions.patternColor || "var(--yc-color-pattern)");
 
     pattern.appendChild(dot);
@@ -3448,30 +4290,37 @@ class YChartEditor {
   }
 
   private renderForceGraph(): void {
+    let doc: OrgDocument | null = null;
     try {
       if (!this.editor) return;
 
       const yamlContent = this.editor.state.doc.toString();
-      const { data: yamlData } = this.parseFrontMatter(yamlContent);
-      const parsedData = jsyaml.load(yamlData) as any[];
+      doc = this.parseDocument(yamlContent);
 
-      if (!Array.isArray(parsedData)) {
+      if (!doc.items) {
         throw new Error('YAML must be an array');
       }
 
-      // Resolve missing parentId values by looking up supervisor names
-      const resolvedData = this.resolveMissingParentIds(parsedData);
+      // Nodes have missing parentId values resolved from supervisor names
+      const resolvedData = doc.nodes;
 
       if (this.forceGraph) {
         this.forceGraph.stop();
       }
 
-      this.forceGraph = new ForceGraph('ychart-chart', (data: any) => this.showNodeDetails(data));
+      this.forceGraph = new ForceGraph('ychart-chart', (data: any) => {
+        this.showNodeDetails(data);
+        this.emit('nodeDetails', { data });
+      });
       this.forceGraph.render(resolvedData);
+      this.hideRenderErrorOverlay();
       
       this.currentView = 'force';
     } catch (error) {
-      // Silently handle - linter will display errors in the editor
+      // YAML syntax errors are reported by the linter; render failures get the overlay
+      if (doc && doc.items) {
+        this.handleRenderFailure(error, doc);
+      }
     }
   }
 
@@ -3528,7 +4377,7 @@ class YChartEditor {
       return this;
     }
 
-    btn.addEventListener('click', () => this.handleExport());
+    btn.addEventListener('click', () => this.exportSVG());
     return this;
   }
 
@@ -3560,6 +4409,15 @@ class YChartEditor {
     return this;
   }
 
+  /**
+   * Show or hide dotted-line relationships (schema fields like `dotted_line: [name]`)
+   * @param visible - Whether dotted lines are drawn (default true)
+   */
+  dottedLines(visible: boolean = true): this {
+    this.setDottedLinesVisible(visible);
+    return this;
+  }
+
   /**
    * Set action button position and orientation
    */
@@ -3602,61 +4460,669 @@ class YChartEditor {
     try {
       if (!this.editor) return;
 
-      this.isUpdatingProgrammatically = true;
-
       const yamlContent = this.editor.state.doc.toString();
-      const { options: userOptions, schema: schemaDef, data: yamlData } = this.parseFrontMatter(yamlContent);
-      const parsedData = jsyaml.load(yamlData);
+      const doc = this.parseDocument(yamlContent);
 
-      if (!Array.isArray(parsedData)) {
+      if (!doc.items) {
         console.error('Cannot update YAML: not an array');
         return;
       }
 
-      const idx1 = parsedData.findIndex(item => String(item.id) === String(data1.id));
-      const idx2 = parsedData.findIndex(item => String(item.id) === String(data2.id));
+      const idx1 = this.findItemIndex(doc, data1);
+      const idx2 = this.findItemIndex(doc, data2);
 
       if (idx1 === -1 || idx2 === -1) {
         console.error('Could not find nodes in YAML data');
         return;
       }
 
-      [parsedData[idx1], parsedData[idx2]] = [parsedData[idx2], parsedData[idx1]];
+      const newContent = new YamlPatch(yamlContent).swapItems(idx1, idx2).toString();
+
+      this.replaceDocument(newContent, `Swap ${data1.name} ↔ ${data2.name}`);
+
+      console.log(`Nodes swapped: ${data1.name} ↔ ${data2.name}`);
+    } catch (error) {
+      console.error('Error updating YAML after swap:', error);
+    }
+  }
+
+  /**
+   * Write a drag-and-drop reparent back to the YAML, keeping the moved item's
+   * reference style (see writeParentLink). Returns whether the move was
+   * written; a refused move redraws the chart from the YAML and says why.
+   */
+  private updateYAMLAfterMove(nodeData: any, newParentData: any): boolean {
+    try {
+      if (!this.editor) return false;
+
+      const yamlContent = this.editor.state.doc.toString();
+      const doc = this.parseDocument(yamlContent);
+      const items = doc.items;
+
+      if (!items) {
+        return this.rejectMove('The YAML data is not a list of people', nodeData);
+      }
+
+      const nodeIndex = this.findItemIndex(doc, nodeData);
+      const nodeName = nodeData[this.nameField] ?? nodeData.id;
 
-      const frontMatter = `---
-options:
-${Object.entries(userOptions).map(([key, value]) => `  ${key}: ${value}`).join('\n')}
-schema:
-${Object.entries(schemaDef).map(([key, field]) => {
-  const modifiers = [field.type, field.required ? 'required' : 'optional', field.missing ? 'missing' : ''].filter(Boolean);
-  return `  ${key}: ${modifiers.join(' | ')}`;
-}).join('\n')}
----
+      // Dropping onto the synthetic root of a forest starts a new tree
+      if (newParentData._syntheticRoot && nodeIndex !== -1) {
+        const patch = new YamlPatch(yamlContent);
+        this.writeRootLink(patch, doc, nodeIndex);
+        this.replaceDocument(patch.toString(), `Move ${nodeName} to the top level`);
+        this.renderChart();
+        return true;
+      }
+
+      const parentIndex = this.findItemIndex(doc, newParentData);
+      const parentName = newParentData[this.nameField] ?? newParentData.id;
+
+      if (nodeIndex === -1 || parentIndex === -1) {
+        const missing = nodeIndex === -1 ? 'this node' : parentName;
+        return this.rejectMove(`Could not find the YAML item for ${missing}; the YAML may have changed since the chart was drawn`, nodeData);
+      }
+
+      // Reject moves under the node's own subtree; the chart checks this too,
+      // but the editor content may have changed since the last render
+      const byId = new Map(doc.nodes.map(node => [String(node.id), node]));
+      const movedId = String(doc.nodes[nodeIndex].id);
+      let ancestor: OrgNode | undefined = doc.nodes[parentIndex];
+      const seen = new Set<string>();
+      while (ancestor && !seen.has(String(ancestor.id))) {
+        if (String(ancestor.id) === movedId) {
+          return this.rejectMove(`${parentName} reports to this node, so it can't become its manager`, nodeData);
+        }
+        seen.add(String(ancestor.id));
+        ancestor = ancestor.parentId === null || ancestor.parentId === undefined
+          ? undefined
+          : byId.get(String(ancestor.parentId));
+      }
 
-`;
+      const patch = new YamlPatch(yamlContent);
+      if (!this.writeParentLink(patch, doc, nodeIndex, parentIndex)) {
+        return this.rejectMove(`${parentName} has neither an id nor a name in the YAML to refer to`, nodeData);
+      }
+
+      const newContent = patch.toString();
+
+      const parentLabel = items[parentIndex][doc.nameField] ?? doc.nodes[parentIndex].id;
+      this.replaceDocument(newContent, `Move ${nodeName} under ${parentLabel}`);
+      this.renderChart();
+      return true;
+    } catch (error) {
+      console.error('Error updating YAML after move:', error);
+      return false;
+    }
+  }
 
-      const newYamlData = jsyaml.dump(parsedData, {
-        indent: 2,
-        lineWidth: -1,
-        noRefs: true
+  /** Put a node the chart already moved back where the YAML has it and explain why */
+  private rejectMove(message: string, nodeData: any): false {
+    this.renderChart();
+    this.showEditRejected(message, nodeData);
+    return false;
+  }
+
+  /**
+   * Insert a new item as a child or peer of a node and link it to its parent.
+   * Returns the new node's data, or null if nothing was added.
+   */
+  private addNodeItem(anchorData: any, relation: 'child' | 'sibling', fields: Record<string, unknown>): any | null {
+    try {
+      if (!this.editor) return null;
+
+      const yamlContent = this.editor.state.doc.toString();
+      const doc = this.parseDocument(yamlContent);
+
+      if (!doc.items) {
+        this.showEditRejected('The YAML data is not a list of people');
+        return null;
+      }
+
+      const anchorIndex = this.findItemIndex(doc, anchorData);
+      if (anchorIndex === -1) {
+        this.showEditRejected("Could not find this node's YAML item; the YAML may have changed since the chart was drawn", anchorData);
+        return null;
+      }
+
+      const anchor = doc.nodes[anchorIndex];
+      const parentIndex = relation === 'child'
+        ? anchorIndex
+        : doc.nodes.findIndex(n => this.isParentOf(n, anchor));
+      // A peer of a root starts a new tree, which only forests allow
+      if (parentIndex === -1 && !doc.forest) {
+        this.showEditRejected(ROOT_PEER_REASON, anchorData);
+        return null;
+      }
+
+      // Direct reports go after the manager's last report, peers right after the node
+      let insertAt = anchorIndex + 1;
+      if (relation === 'child') {
+        doc.nodes.forEach((n, i) => {
+          if (this.isParentOf(anchor, n)) insertAt = Math.max(insertAt, i + 1);
+        });
+      }
+
+      const item = this.createNodeItem(doc, fields);
+      const patch = new YamlPatch(yamlContent).insertItem(insertAt, item);
+
+      // Link the new item using the re-parsed document so its style checks see it
+      const inserted = this.parseDocument(patch.toString());
+      const name = item[doc.nameField] ?? item.id;
+      let label = `Add ${name}`;
+
+      if (parentIndex === -1) {
+        this.writeRootLink(patch, inserted, insertAt);
+      } else {
+        const newParentIndex = parentIndex >= insertAt ? parentIndex + 1 : parentIndex;
+        if (!this.writeParentLink(patch, inserted, insertAt, newParentIndex)) {
+          this.showEditRejected('The manager has neither an id nor a name in the YAML to refer to', anchorData);
+          return null;
+        }
+        label += ` under ${doc.items[parentIndex][doc.nameField] ?? doc.nodes[parentIndex].id}`;
+      }
+
+      this.replaceDocument(patch.toString(), label);
+      this.renderChart();
+
+      return this.parseDocument(patch.toString()).nodes[insertAt] ?? null;
+    } catch (error) {
+      console.error('Error adding node:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Build a new YAML item: the next free id (when the document uses ids), a
+   * unique placeholder name and the given fields.
+   */
+  private createNodeItem(doc: OrgDocument, fields: Record<string, unknown>): Record<string, unknown> {
+    const items = doc.items ?? [];
+    const item: Record<string, unknown> = {};
+
+    const ids = items.filter(entry => entry && entry.id !== undefined && entry.id !== null).map(entry => String(entry.id));
+    if (fields.id !== undefined) {
+      item.id = fields.id;
+    } else if (ids.length > 0) {
+      if (ids.every(id => /^\d+$/.test(id))) {
+        item.id = Math.max(...ids.map(Number)) + 1;
+      } else {
+        let counter = 1;
+        while (ids.includes(`new-person-${counter}`)) counter++;
+        item.id = `new-person-${counter}`;
+      }
+    }
+
+    if (fields[doc.nameField] !== undefined) {
+      item[doc.nameField] = fields[doc.nameField];
+    } else {
+      const names = new Set(items.map(entry => entry && String(entry[doc.nameField])));
+      let name = 'New Person';
+      for (let counter = 2; names.has(name); counter++) {
+        name = `New Person ${counter}`;
+      }
+      item[doc.nameField] = name;
+    }
+
+    return { ...item, ...fields };
+  }
+
+  /**
+   * Remove a node's item. With 'reassign' its reports move to the node's
+   * manager (a root's only report becomes the new root); with 'cascade' the
+   * whole subtree is removed.
+   */
+  private removeNodeItem(nodeData: any, reports: 'reassign' | 'cascade'): void {
+    try {
+      if (!this.editor) return;
+
+      const yamlContent = this.editor.state.doc.toString();
+      const doc = this.parseDocument(yamlContent);
+
+      if (!doc.items) {
+        this.showEditRejected('The YAML data is not a list of people');
+        return;
+      }
+
+      const index = this.findItemIndex(doc, nodeData);
+      if (index === -1) {
+        this.showEditRejected("Could not find this node's YAML item; the YAML may have changed since the chart was drawn", nodeData);
+        return;
+      }
+
+      const node = doc.nodes[index];
+      const patch = new YamlPatch(yamlContent);
+      let removed = [index];
+
+      if (reports === 'cascade') {
+        removed = this.collectSubtree(doc, index);
+      } else {
+        const reportIndexes = doc.nodes.map((n, i) => this.isParentOf(node, n) ? i : -1).filter(i => i !== -1);
+        const parentIndex = doc.nodes.findIndex(n => this.isParentOf(n, node));
+
+        if (reportIndexes.length > 0 && parentIndex === -1) {
+          if (reportIndexes.length > 1 && !doc.forest) {
+            this.showEditRejected(ROOT_REASSIGN_REASON, nodeData);
+            return;
+          }
+          // Promote the reports to roots (several only in a forest)
+          reportIndexes.forEach(report => this.writeRootLink(patch, doc, report));
+        } else {
+          reportIndexes.forEach(report => this.writeParentLink(patch, doc, report, parentIndex));
+        }
+      }
+
+      // Remove from the bottom up so earlier indexes stay valid
+      [...removed].sort((a, b) => b - a).forEach(i => patch.removeItem(i));
+
+      const name = doc.items[index][doc.nameField] ?? node.id;
+      const others = removed.length - 1;
+      const label = others > 0 ? `Delete ${name} and ${others} ${others === 1 ? 'report' : 'reports'}` : `Delete ${name}`;
+      this.replaceDocument(patch.toString(), label);
+      this.renderChart();
+    } catch (error) {
+      console.error('Error deleting node:', error);
+    }
+  }
+
+  /** Indexes of a node and all of its descendants */
+  private collectSubtree(doc: OrgDocument, index: number): number[] {
+    const result = [index];
+    for (let i = 0; i < result.length; i++) {
+      const current = doc.nodes[result[i]];
+      doc.nodes.forEach((n, childIndex) => {
+        if (this.isParentOf(current, n) && !result.includes(childIndex)) {
+          result.push(childIndex);
+        }
       });
+    }
+    return result;
+  }
+
+  private isParentOf(parent: OrgNode, child: OrgNode): boolean {
+    return child.parentId !== null && child.parentId !== undefined && String(child.parentId) === String(parent.id);
+  }
+
+  /** Current chart data for a node id */
+  private findNodeData(id: string | number): any | null {
+    if (!this.editor) return null;
+    const doc = this.parseDocument(this.editor.state.doc.toString());
+    return doc.nodes.find(node => String(node.id) === String(id)) ?? null;
+  }
+
+  /**
+   * Point an item at a new parent, keeping the reference style it already
+   * uses: `parentId` when it has one, otherwise its supervisor field set to
+   * the parent's name (see supervisorReference). Items with neither follow the style used by the rest
+   * of the document. Returns false when the parent can't be referenced.
+   */
+  private writeParentLink(patch: YamlPatch, doc: OrgDocument, index: number, parentIndex: number): boolean {
+    const items = doc.items!;
+    const item = items[index];
+    const parentItem = items[parentIndex];
+    const parentNode = doc.nodes[parentIndex];
+    const parentName = this.supervisorReference(doc, parentIndex);
+    const supervisorField = doc.supervisorFields.find(field => item[field] !== undefined);
+    const usesParentIds = items.some(entry => entry && entry.parentId !== undefined);
+    // Generated ids are only stable across edits when derived from an email
+    const parentHasStableId = !parentNode._autoGeneratedId || parentNode.id === String(parentItem.email ?? '').toLowerCase();
+
+    const prefersParentId = item.parentId !== undefined || (!supervisorField && usesParentIds);
+    const useParentId = parentHasStableId && (prefersParentId || parentName === undefined);
+
+    if (!useParentId && parentName === undefined) {
+      return false;
+    }
+
+    if (useParentId) {
+      // New parentId keys go next to the id, like hand-written YAML
+      patch.setField(index, 'parentId', parentNode.id, { after: 'id' });
+      // A supervisor name alongside the parentId would now be stale
+      if (supervisorField && parentName !== undefined) {
+        patch.setField(index, supervisorField, parentName);
+      }
+    } else {
+      const field = supervisorField
+        ?? doc.supervisorFields.find(f => items.some(entry => entry && entry[f] !== undefined))
+        ?? doc.supervisorFields[0];
+      patch
+        .setField(index, field, parentName)
+        .deleteField(index, 'parentId');
+    }
+    return true;
+  }
+
+  /**
+   * How a supervisor field should refer to an item: by name, or by email (then
+   * id) when someone else has the same name.
+   */
+  private supervisorReference(doc: OrgDocument, index: number): unknown {
+    const items = doc.items!;
+    const name = items[index][doc.nameField];
+    if (name === undefined || name === null) return undefined;
+
+    const key = String(name).toLowerCase();
+    const shared = items.some((other, i) =>
+      i !== index && other && other[doc.nameField] !== undefined && String(other[doc.nameField]).toLowerCase() === key
+    );
+    return shared ? items[index].email ?? items[index].id ?? name : name;
+  }
+
+  /**
+   * Make an item top-level: `parentId: null` when it (or, lacking a supervisor
+   * field, the rest of the document) uses parentIds, and no supervisor field.
+   */
+  private writeRootLink(patch: YamlPatch, doc: OrgDocument, index: number): void {
+    const items = doc.items!;
+    const item = items[index];
+    const supervisorFields = doc.supervisorFields.filter(field => item[field] !== undefined);
+    const usesParentIds = items.some(entry => entry && entry.parentId !== undefined);
+
+    if (item.parentId !== undefined || (supervisorFields.length === 0 && usesParentIds)) {
+      patch.setField(index, 'parentId', null, { after: 'id' });
+    }
+    supervisorFields.forEach(field => patch.deleteField(index, field));
+  }
+
+  /**
+   * Find the index of the YAML item a rendered node came from. Nodes without an
+   * id in the YAML get a fresh generated id on every parse, so they are matched
+   * by name and email instead.
+   */
+  private findItemIndex(doc: OrgDocument, nodeData: any): number {
+    if (nodeData._autoGeneratedId) {
+      return doc.nodes.findIndex(node =>
+        node._autoGeneratedId &&
+        node[doc.nameField] === nodeData[doc.nameField] &&
+        node.email === nodeData.email
+      );
+    }
+    return doc.nodes.findIndex(node => !node._autoGeneratedId && String(node.id) === String(nodeData.id));
+  }
+
+  /**
+   * Undo the last chart-side operation or editor change.
+   */
+  undo(): this {
+    this.history.undo();
+    return this;
+  }
+
+  /**
+   * Redo the last undone operation.
+   */
+  redo(): this {
+    this.history.redo();
+    return this;
+  }
+
+  /**
+   * Add a direct report under a node. The new item is written in the
+   * document's style (`parentId` or supervisor name) and gets the next free
+   * id when the document uses explicit ids.
+   * @param parentId - Id of the new node's manager
+   * @param fields - Fields for the new node (default name: "New Person")
+   */
+  addChild(parentId: string | number, fields: Record<string, unknown> = {}): this {
+    const parent = this.findNodeData(parentId);
+    if (!parent) {
+      console.error(`Node ${parentId} not found`);
+      return this;
+    }
+    this.addNodeItem(parent, 'child', fields);
+    return this;
+  }
 
-      const newContent = frontMatter + newYamlData;
+  /**
+   * Add a peer of a node (a new direct report of the node's manager).
+   * @param nodeId - Id of the node to add a peer to
+   * @param fields - Fields for the new node (default name: "New Person")
+   */
+  addSibling(nodeId: string | number, fields: Record<string, unknown> = {}): this {
+    const node = this.findNodeData(nodeId);
+    if (!node) {
+      console.error(`Node ${nodeId} not found`);
+      return this;
+    }
+    this.addNodeItem(node, 'sibling', fields);
+    return this;
+  }
+
+  /**
+   * Delete a node from the YAML.
+   * @param nodeId - Id of the node to delete
+   * @param reports - 'reassign' moves the node's reports to its manager,
+   *                  'cascade' deletes them along with the node (default: 'reassign')
+   */
+  deleteNode(nodeId: string | number, reports: 'reassign' | 'cascade' = 'reassign'): this {
+    const node = this.findNodeData(nodeId);
+    if (!node) {
+      console.error(`Node ${nodeId} not found`);
+      return this;
+    }
+    this.removeNodeItem(node, reports);
+    return this;
+  }
 
+  /**
+   * Replace the editor content without re-rendering. With a label the change
+   * is its own step in CodeMirror's history, listed under that label.
+   */
+  private replaceDocument(content: string, label?: string): void {
+    if (!this.editor) return;
+
+    const depth = undoDepth(this.editor.state);
+    this.applyDocument(content, label !== undefined);
+
+    if (label && undoDepth(this.editor.state) > depth) {
+      this.pushEditorHistory(label);
+    }
+  }
+
+  /**
+   * Replace the editor content, dispatching only the range that differs so
+   * the cursor, folds and lint markers elsewhere stay put. Does not trigger a
+   * re-render. Recorded changes never merge with the typing around them.
+   */
+  private applyDocument(content: string, record = false): void {
+    if (!this.editor) return;
+
+    const current = this.editor.state.doc.toString();
+    if (current === content) return;
+
+    const wasUpdating = this.isUpdatingProgrammatically;
+    this.isUpdatingProgrammatically = true;
+    try {
       this.editor.dispatch({
-        changes: {
-          from: 0,
-          to: this.editor.state.doc.length,
-          insert: newContent
-        }
+        changes: minimalChange(current, content),
+        annotations: record ? isolateHistory.of('full') : Transaction.addToHistory.of(false)
       });
+    } finally {
+      this.isUpdatingProgrammatically = wasUpdating;
+    }
+  }
 
-      console.log(`Nodes swapped: ${data1.name} ↔ ${data2.name}`);
+  /**
+   * Name the newest step in CodeMirror's history. Undoing the entry undoes
+   * that step; the update listener re-renders the chart.
+   */
+  private pushEditorHistory(label: string): void {
+    this.history.push({
+      label,
+      undo: () => { if (this.editor) undoEdit(this.editor); },
+      redo: () => { if (this.editor) redoEdit(this.editor); },
+      source: EDITOR_HISTORY
+    });
+  }
+
+  /**
+   * Mirror a CodeMirror history change made outside undo()/redo(). Typing
+   * adds "Edit YAML" entries; an undo or redo CodeMirror ran by itself (the
+   * browser's Edit menu sends historyUndo/historyRedo input events) moves the
+   * matching entry so both histories stay on the same step.
+   */
+  private syncEditorHistory(update: ViewUpdate): void {
+    let replayed = false;
+    for (const tr of update.transactions) {
+      if (tr.isUserEvent('undo')) {
+        this.history.markUndone(EDITOR_HISTORY);
+        replayed = true;
+      } else if (tr.isUserEvent('redo')) {
+        this.history.markRedone(EDITOR_HISTORY);
+        replayed = true;
+      }
+    }
+
+    // CodeMirror groups bursts of typing; each new group becomes one "Edit YAML" entry
+    if (!replayed && undoDepth(update.state) > undoDepth(update.startState)) {
+      this.pushEditorHistory('Edit YAML');
+    }
+  }
+
+  private updateHistoryButtons(): void {
+    if (!this.toolbar) return;
+
+    const buttons: [string, boolean, string | null, string][] = [
+      ['undo', this.history.canUndo(), this.history.undoLabel(), 'Undo'],
+      ['redo', this.history.canRedo(), this.history.redoLabel(), 'Redo'],
+    ];
+
+    buttons.forEach(([id, enabled, label, verb]) => {
+      const button = this.toolbar!.querySelector(`[data-id="ychart-btn-${id}-${this.instanceId}"]`) as HTMLButtonElement | null;
+      if (!button) return;
+
+      const shortcut = id === 'undo' ? 'Ctrl+Z' : 'Ctrl+Shift+Z';
+      const text = label ? `${verb} ${label} (${shortcut})` : `${verb} (${shortcut})`;
+      button.disabled = !enabled;
+      button.style.opacity = enabled ? '1' : '0.4';
+      button.style.cursor = enabled ? 'pointer' : 'not-allowed';
+      button.setAttribute('data-tooltip', text);
+      button.setAttribute('aria-label', text);
+      const tooltip = button.querySelector('.ychart-tooltip');
+      if (tooltip) {
+        tooltip.textContent = text;
+      }
+    });
+  }
+
+  /**
+   * Export the full chart as an SVG file.
+   * @param filename - Download filename (default: 'orgchart.svg')
+   */
+  async exportSVG(filename: string = 'orgchart.svg'): Promise<void> {
+    try {
+      const source = serializeSvg(await this.prepareExportSvg());
+      this.downloadFile('data:image/svg+xml;charset=utf-8,' + encodeURIComponent(source), filename);
     } catch (error) {
-      console.error('Error updating YAML after swap:', error);
-    } finally {
-      this.isUpdatingProgrammatically = false;
+      console.error('Failed to export SVG:', error);
+      alert(`Failed to export SVG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Export the full chart as a PNG image.
+   * @param filename - Download filename (default: 'orgchart.png')
+   * @param options - Pixel scale and background color ('transparent' for none)
+   */
+  async exportPNG(filename: string = 'orgchart.png', options: PngExportOptions = {}): Promise<void> {
+    try {
+      const dataUrl = await renderPng(await this.prepareExportSvg(), options);
+      this.downloadFile(dataUrl, filename);
+    } catch (error) {
+      console.error('Failed to export PNG:', error);
+      alert(`Failed to export PNG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Export the full chart as a PDF, tiled across pages with page numbers.
+   * @param filename - Download filename (default: 'orgchart.pdf')
+   * @param options - Paper size, orientation, scale, page numbers and background
+   */
+  async exportPDF(filename: string = 'orgchart.pdf', options: PdfExportOptions = {}): Promise<void> {
+    try {
+      const blob = await renderPdf(await this.prepareExportSvg(), options);
+      const url = URL.createObjectURL(blob);
+      this.downloadFile(url, filename);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      alert(`Failed to export PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace the editor content with YAML generated from CSV text.
+   * Current chart options are kept in the generated front matter.
+   * @param csvText - CSV with a header row
+   * @param mapping - Target field -> CSV header; guessed from the headers when omitted
+   */
+  importCSV(csvText: string, mapping?: CsvColumnMapping): this {
+    const rows = parseCSV(csvText);
+    const columnMapping = mapping ?? guessColumnMapping(rows[0] || []);
+    const { options } = this.parseDocument(this.getYAML());
+
+    this.replaceDocument(csvToYAML(csvText, { mapping: columnMapping, options }), 'Import CSV');
+    this.renderChart();
+    return this;
+  }
+
+  /**
+   * Get the resolved node list as CSV, including computed `parentId` values.
+   */
+  getCSV(): string {
+    const doc = this.parseDocument(this.getYAML());
+    if (!doc.items) {
+      throw new Error('YAML must be an array');
+    }
+    return nodesToCSV(doc.nodes);
+  }
+
+  /**
+   * Subscribe to an editor event.
+   * @param event - Event name (e.g. 'nodeSelect', 'dataChange', 'swap')
+   * @param handler - Called with the event's typed payload
+   */
+  on<K extends YChartEventName>(event: K, handler: YChartEventHandler<K>): this {
+    // Narrowed to K, so the new set can be stored without a cast
+    const eventHandlers: { [P in K]?: Set<YChartEventHandler<P>> } = this.eventHandlers;
+    let handlers = eventHandlers[event];
+    if (!handlers) {
+      handlers = new Set();
+      eventHandlers[event] = handlers;
     }
+    handlers.add(handler);
+    return this;
+  }
+
+  /**
+   * Unsubscribe from an editor event.
+   * @param event - Event name
+   * @param handler - Handler passed to on(); omit to remove all handlers for the event
+   */
+  off<K extends YChartEventName>(event: K, handler?: YChartEventHandler<K>): this {
+    const handlers = this.eventHandlers[event];
+    if (!handlers) return this;
+
+    if (handler) {
+      handlers.delete(handler);
+    } else {
+      handlers.clear();
+    }
+    return this;
+  }
+
+  private emit<K extends YChartEventName>(event: K, payload: YChartEventMap[K]): void {
+    const handlers = this.eventHandlers[event];
+    if (!handlers) return;
+
+    handlers.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in ${event} handler:`, error);
+      }
+    });
   }
 
   /**
@@ -3667,23 +5133,26 @@ ${Object.entries(schemaDef).map(([key, field]) => {
   }
 
   /**
-   * Update YAML content programmatically
+   * Get the current document as JSON: the data array, or an object with
+   * `options`, `schema`, `card` and `data` when it has front matter
+   */
+  getJSON(): string {
+    return JSON.stringify(this.parseDocument(this.getYAML()).toJSON(), null, 2);
+  }
+
+  /**
+   * Update YAML content programmatically. JSON (a data array, or an object
+   * with `options`, `schema`, `card` and `data`) is accepted too. Loading
+   * starts a new undo history, so undo can't go back to the previous document.
    */
   setYAML(yamlContent: string): this {
     if (!this.editor) return this;
 
-    this.isUpdatingProgrammatically = true;
-
-    this.editor.dispatch({
-      changes: {
-        from: 0,
-        to: this.editor.state.doc.length,
-        insert: yamlContent
-      }
-    });
-
-    this.isUpdatingProgrammatically = false;
+    // A new state drops CodeMirror's history along with the shared one
+    this.editor.setState(EditorState.create({ doc: yamlContent, extensions: this.editorExtensions }));
+    this.history.clear();
     this.renderChart();
+    this.emit('dataChange', { yaml: yamlContent });
 
     return this;
   }
@@ -3704,6 +5173,7 @@ ${Object.entries(schemaDef).map(([key, field]) => {
     if (this.viewContainer) {
       this.viewContainer.innerHTML = '';
     }
+    this.eventHandlers = {};
   }
 }
 
@@ -3712,4 +5182,14 @@ if (typeof window !== "undefined") {
   (window as any).YChartEditor = YChartEditor;
 }
 
+export { OrgDocument, parseSchemaField, resolveMissingParentIds } from './orgDocument.js';
+export { YamlPatch } from './yamlPatch.js';
+export { escapeHtml, sanitizeHtml } from './sanitize.js';
+export type { SetFieldOptions } from './yamlPatch.js';
+export { parseCSV, guessColumnMapping, csvToYAML, nodesToCSV } from './csv.js';
+export type { CsvColumnMapping, CsvImportOptions, CsvTargetField } from './csv.js';
+export type { PaperSize, PngExportOptions, PdfExportOptions } from './chartExport.js';
+export type { RenderErrorInfo, RenderErrorCategory } from './renderError.js';
+export type { OrgNode, OrgConnection, OrgDiagnostic, OrgDocumentConfig, DiagnosticSeverity } from './orgDocument.js';
+export type { YChartOptions, ForestMode, FieldSchema, SchemaDefinition, CardElement, CardConfig, CardTemplate, CardTemplates, FrontMatter, YChartView, YChartEventMap, YChartEventName, YChartEventHandler } from './types.js';
 export default YChartEditor;
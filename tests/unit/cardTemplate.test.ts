@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { initials, photoOf, renderAvatar, renderCard, replaceVariables, selectCardTemplate } from '../../src/cardTemplate.js';
+
+describe('renderCard', () => {
+  describe('conditions and loops', () => {
+    it('renders an element only when its if field has a value', () => {
+      const template = [{ div: { if: '$title$', content: 'Title: $title$' } }];
+      expect(renderCard(template, { title: 'CEO' })).toBe('<div>Title: CEO</div>');
+      for (const title of [undefined, '', false, 0, []]) {
+        expect(renderCard(template, { title })).toBe('');
+      }
+    });
+
+    it('renders an element only when its unless field is empty', () => {
+      const template = [{ div: { unless: '$email$', content: 'No email' } }];
+      expect(renderCard(template, {})).toBe('<div>No email</div>');
+      expect(renderCard(template, { email: 'alice@example.com' })).toBe('');
+    });
+
+    it('checks conditions that mix text and variables by what they expand to', () => {
+      const template = [{ div: { if: '$first$ $last$', content: 'named' } }];
+      expect(renderCard(template, { last: 'Smith' })).toBe('<div>named</div>');
+      expect(renderCard(template, {})).toBe('');
+    });
+
+    it('repeats an element for each entry with its index', () => {
+      const template = [{ div: { each: '$skills$', content: '$_index$.$_item$' } }];
+      expect(renderCard(template, { skills: ['Go', 'Rust'] })).toBe('<div>1.Go</div><div>2.Rust</div>');
+      expect(renderCard(template, { skills: 'Go' })).toBe('<div>1.Go</div>');
+      expect(renderCard(template, { skills: [] })).toBe('');
+    });
+
+    it('puts the fields of object entries in scope and checks guards per entry', () => {
+      const template = [{ span: { each: '$projects$', if: '$active$', content: '$name$ ($role$)' } }];
+      const data = {
+        name: 'Alice',
+        projects: [{ name: 'Atlas', role: 'lead', active: true }, { name: 'Borealis', role: 'dev', active: false }],
+      };
+      expect(renderCard(template, data)).toBe('<span style="word-break:break-all">Atlas (lead)</span>');
+    });
+  });
+});
+
+describe('replaceVariables', () => {
+  it('uses the quoted fallback for empty values', () => {
+    expect(replaceVariables('$name|"Unnamed"$', {})).toBe('Unnamed');
+    expect(replaceVariables("$name|'Unnamed'$", { name: '' })).toBe('Unnamed');
+    expect(replaceVariables('$name|"Unnamed"$', { name: 'Alice' })).toBe('Alice');
+    expect(replaceVariables('[$name$]', {})).toBe('[]');
+  });
+
+  it('formats dates as calendar days', () => {
+    const start = new Date('2021-03-05T00:00:00Z');
+    expect(replaceVariables('$start|date:"MMM yyyy"$', { start })).toBe('Mar 2021');
+    expect(replaceVariables('$start|date:"dd/MM/yy"$', { start: '2021-03-05' })).toBe('05/03/21');
+    expect(replaceVariables('$start|date$', { start })).toBe('Mar 5, 2021');
+    expect(replaceVariables('$start|date:"yyyy"|"n/a"$', { start: 'soon' })).toBe('soon');
+    expect(replaceVariables('$start|date:"yyyy"|"n/a"$', {})).toBe('n/a');
+  });
+
+  it('formats numbers and currencies in the page locale', () => {
+    const format = (options: Intl.NumberFormatOptions) => new Intl.NumberFormat(undefined, options).format(1234.5);
+    expect(replaceVariables('$salary|currency:eur$', { salary: 1234.5 })).toBe(format({ style: 'currency', currency: 'EUR' }));
+    expect(replaceVariables('$salary|currency$', { salary: '1,234.5' })).toBe(format({ style: 'currency', currency: 'USD' }));
+    expect(replaceVariables('$headcount|number:2$', { headcount: 1234.5 })).toBe(format({ minimumFractionDigits: 2, maximumFractionDigits: 2 }));
+    expect(replaceVariables('$salary|currency:NOPE$', { salary: 10 })).toBe('10');
+    expect(replaceVariables('$salary|number$', { salary: 'n/a' })).toBe('n/a');
+  });
+
+  it('writes initials and mailto links, escaping the value', () => {
+    expect(replaceVariables('$name|initials$', { name: 'ada king lovelace' })).toBe('AL');
+    expect(replaceVariables('$email|mailto$', { email: 'a&b@example.com' }))
+      .toBe('<a href="mailto:a&amp;b@example.com">a&amp;b@example.com</a>');
+  });
+
+  it('chains pipes and escapes their output', () => {
+    expect(replaceVariables('$name|initials|"?"$', { name: '<b>' })).toBe('&lt;');
+    expect(replaceVariables('$name|unknown$', { name: 'Alice' })).toBe('Alice');
+  });
+});
+
+describe('avatars', () => {
+  it('takes initials from the first and last words', () => {
+    expect(initials('Ada King Lovelace')).toBe('AL');
+    expect(initials('  cher ')).toBe('C');
+    expect(initials('')).toBe('');
+  });
+
+  it('finds the photo in a photo-typed field, else photo or picture', () => {
+    const schema = { headshot: { type: 'photo', required: false, missing: false } };
+    expect(photoOf({ headshot: ' a.png ', photo: 'b.png' }, schema)).toBe('a.png');
+    expect(photoOf({ headshot: '', picture: 'c.png' }, schema)).toBe('c.png');
+    expect(photoOf({ photo: '  ' })).toBeUndefined();
+  });
+
+  it('draws the photo over the initials, in a colour picked by the name', () => {
+    const avatar = renderAvatar('a.png?x="1"', 'Alice Smith', 40);
+    expect(avatar).toContain('>AS<img class="yc-avatar-img" src="a.png?x=&quot;1&quot;"');
+    expect(avatar).toContain('width:40px;height:40px');
+    expect(renderAvatar(undefined, 'Alice Smith', 40)).toBe(avatar.replace(/<img[^>]*>/, ''));
+    const hue = (name: string) => /background:hsl\((\d+),/.exec(renderAvatar(undefined, name))?.[1];
+    expect(hue('Alice Smith')).toBe(hue('Alice Smith'));
+    expect(hue('Alice Smith')).not.toBe(hue('Bob Jones'));
+    expect(renderAvatar(undefined, '')).toContain('>?</span>');
+  });
+
+  it('renders photo elements from the node or from their own src, name and size', () => {
+    const data = { name: 'Alice Smith', picture: 'a.png', alt: 'b.png' };
+    expect(renderCard([{ photo: '$alt$' }], data)).toBe(renderAvatar('b.png', 'Alice Smith'));
+    expect(renderCard([{ photo: { size: 32 } }], data)).toBe(renderAvatar('a.png', 'Alice Smith', 32));
+    expect(renderCard([{ photo: { name: '$nick$', class: 'pic' } }], { ...data, nick: 'Al' }))
+      .toBe(`<div class="pic">${renderAvatar('a.png', 'Al')}</div>`);
+    expect(renderCard([{ photo: { if: '$picture$' } }], { name: 'Bob' })).toBe('');
+  });
+});
+
+describe('selectCardTemplate', () => {
+  const plain = [{ div: 'plain' }];
+  const cards = {
+    staff: { template: [{ div: 'staff' }] },
+    exec: { template: [{ div: 'exec' }], when: { level: ['Exec', 'VP'] } },
+    top: { template: [{ div: 'top' }], depth: 0 },
+    deep: { template: [{ div: 'deep' }], depth: '2+' },
+    vacant: { template: [{ div: 'vacant' }], when: { name: null } },
+  };
+
+  it('uses the template named by _card before any rule', () => {
+    expect(selectCardTemplate(cards, plain, { _card: 'staff', level: 'exec' }, 0)).toBe(cards.staff.template);
+    expect(selectCardTemplate(cards, plain, { _card: 'missing', name: 'Alice' }, 1)).toBe(plain);
+  });
+
+  it('uses the first template whose when and depth rules match', () => {
+    expect(selectCardTemplate(cards, plain, { name: 'Alice', level: 'vp' }, 0)).toBe(cards.exec.template);
+    expect(selectCardTemplate(cards, plain, { name: 'Alice' }, 0)).toBe(cards.top.template);
+    expect(selectCardTemplate(cards, plain, { name: 'Alice' }, 3)).toBe(cards.deep.template);
+    expect(selectCardTemplate(cards, plain, { name: '' }, 1)).toBe(cards.vacant.template);
+  });
+
+  it('falls back to the plain card template', () => {
+    expect(selectCardTemplate(cards, plain, { name: 'Alice' }, 1)).toBe(plain);
+    expect(selectCardTemplate(undefined, plain, { _card: 'staff' }, 0)).toBe(plain);
+    expect(selectCardTemplate(cards, undefined, { name: 'Alice' }, 1)).toBeUndefined();
+  });
+});
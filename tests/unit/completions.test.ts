@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CompletionContext, type CompletionResult } from '@codemirror/autocomplete';
+import { EditorState } from '@codemirror/state';
+import { ychartCompletions } from '../../src/completions.js';
+import { OrgDocument } from '../../src/orgDocument.js';
+
+/** Completions at the `^` in `text` */
+function complete(text: string, explicit = false): CompletionResult | null {
+  const pos = text.indexOf('^');
+  const state = EditorState.create({ doc: text.slice(0, pos) + text.slice(pos + 1) });
+  const source = ychartCompletions(source => OrgDocument.parse(source));
+  return source(new CompletionContext(state, pos, explicit)) as CompletionResult | null;
+}
+
+const labels = (result: CompletionResult | null) => result?.options.map(option => option.label);
+
+const FRONT_MATTER = `---
+schema:
+  name: string | required
+  team: "enum[Sales, '01'] | default: Sales"
+  remote: boolean
+  department: "string | alias: dept"
+cards:
+  exec:
+    template:
+      - div: $name$
+---
+`;
+
+describe('ychartCompletions', () => {
+  it('offers the schema fields an item does not have yet', () => {
+    const source = `${FRONT_MATTER}- id: 1\n  name: Alice\n  t^\n`;
+    const result = complete(source);
+    expect(labels(result)).toEqual(['team', 'remote', 'department', 'dept', '_card']);
+    expect(result?.options[0]).toMatchObject({ apply: 'team: ', detail: 'enum[Sales, 01]' });
+    expect(result?.from).toBe(source.indexOf('t^'));
+  });
+
+  it('offers enum choices with the default first, and booleans', () => {
+    const team = complete(`${FRONT_MATTER}- id: 1\n  team: ^\n`);
+    expect(team?.options.map(option => [option.label, option.apply, option.detail])).toEqual([
+      ['Sales', 'Sales', 'default'],
+      ['01', '"01"', undefined],
+    ]);
+    expect(labels(complete(`${FRONT_MATTER}- id: 1\n  remote: t^\n`))).toEqual(['true', 'false']);
+  });
+
+  it('offers other people for supervisor fields, by email when names are shared', () => {
+    const source = `- name: Alice\n  email: a1@example.com\n- name: Alice\n  email: a2@example.com\n- name: Bob\n  title: CTO\n- name: Carol\n  supervisor: ^\n`;
+    const result = complete(source);
+    expect(result?.options.map(option => [option.label, option.detail])).toEqual([
+      ['a1@example.com', 'Alice'],
+      ['a2@example.com', 'Alice'],
+      ['Bob', 'CTO'],
+    ]);
+  });
+
+  it('offers node ids for parentId and template names for _card', () => {
+    expect(labels(complete(`${FRONT_MATTER}- id: 1\n  name: Alice\n- id: 2\n  name: Bob\n  parentId: ^\n`))).toEqual(['1']);
+    expect(labels(complete(`${FRONT_MATTER}- id: 1\n  _card: ^\n`))).toEqual(['exec']);
+  });
+
+  it('offers front matter sections, options and schema types', () => {
+    expect(labels(complete('---\nop^\n---\n'))).toEqual(['options', 'schema', 'card', 'cards']);
+    expect(labels(complete('---\noptions:\n  forest: ^\n---\n'))).toEqual(['side-by-side', 'synthetic-root']);
+    expect(labels(complete('---\noptions:\n  nodeWidth: 200\n  no^\n---\n'))).not.toContain('nodeWidth');
+    expect(labels(complete('---\nschema:\n  age: ^\n---\n'))).toContain('enum[]');
+  });
+
+  it('offers card tags, and settings under a tag', () => {
+    expect(labels(complete('---\ncard:\n  - d^\n---\n'))).toContain('photo');
+    expect(labels(complete('---\ncard:\n  - div:\n      c^\n---\n'))).toEqual(['content', 'style', 'class', 'children', 'if', 'unless', 'each']);
+  });
+
+  it('stays quiet on blank lines unless asked', () => {
+    expect(complete(`${FRONT_MATTER}- id: 1\n  ^\n`)).toBeNull();
+    expect(labels(complete(`${FRONT_MATTER}- id: 1\n  ^\n`, true))).toContain('name');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { csvToYAML, guessColumnMapping, nodesToCSV, parseCSV } from '../../src/csv.js';
+import { OrgDocument, type OrgNode } from '../../src/orgDocument.js';
+
+describe('parseCSV', () => {
+  it('reads quoted cells with delimiters, quotes and newlines', () => {
+    expect(parseCSV('name,note\n"Lee, Ann","said ""hi""\nthen left"\n')).toEqual([
+      ['name', 'note'],
+      ['Lee, Ann', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('handles CRLF line endings, a BOM and blank lines', () => {
+    expect(parseCSV('\uFEFFa,b\r\n1,2\r\n\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('detects semicolon and tab delimiters from the header', () => {
+    expect(parseCSV('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCSV('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps common spreadsheet headers', () => {
+    expect(guessColumnMapping(['Employee ID', 'Full Name', 'Job Title', 'Manager', 'E-mail', 'Manager ID', 'Office'])).toEqual({
+      id: 'Employee ID',
+      name: 'Full Name',
+      title: 'Job Title',
+      supervisor: 'Manager',
+      email: 'E-mail',
+      parentId: 'Manager ID',
+    });
+  });
+
+  it('leaves unknown headers unmapped', () => {
+    expect(guessColumnMapping(['Office', 'Cost Center'])).toEqual({});
+  });
+});
+
+describe('csvToYAML', () => {
+  const csv = 'Name,Title,Manager,Office\nAlice,CEO,,HQ\nBob,CTO,Alice,\n';
+
+  it('writes mapped and extra columns with a schema', () => {
+    const yaml = csvToYAML(csv, { mapping: { name: 'Name', title: 'Title', supervisor: 'Manager' } });
+    const doc = OrgDocument.parse(yaml);
+    expect(doc.schema.name).toMatchObject({ type: 'string', required: true });
+    expect(doc.schema.office).toMatchObject({ type: 'string', required: false });
+    expect(doc.items).toEqual([
+      { name: 'Alice', title: 'CEO', office: 'HQ' },
+      { name: 'Bob', title: 'CTO', supervisor: 'Alice' },
+    ]);
+    expect(doc.nodes[1].parentId).toBe(doc.nodes[0].id);
+  });
+
+  it('can drop unmapped columns and adds options to the front matter', () => {
+    const yaml = csvToYAML(csv, { mapping: { name: 'Name' }, includeUnmapped: false, options: { nodeWidth: 250 } });
+    const doc = OrgDocument.parse(yaml);
+    expect(doc.options).toEqual({ nodeWidth: 250 });
+    expect(doc.items).toEqual([{ name: 'Alice' }, { name: 'Bob' }]);
+  });
+
+  it('keeps numeric ids as numbers', () => {
+    const yaml = csvToYAML('ID,Parent,Name\n1,,Alice\n2,1,Bob\n007,1,Bond\n', { mapping: { id: 'ID', parentId: 'Parent', name: 'Name' } });
+    expect(OrgDocument.parse(yaml).items).toEqual([
+      { id: 1, name: 'Alice' },
+      { id: 2, parentId: 1, name: 'Bob' },
+      { id: '007', parentId: 1, name: 'Bond' },
+    ]);
+  });
+
+  it('rejects mappings without a name or id, or with unknown columns', () => {
+    expect(() => csvToYAML(csv, { mapping: { title: 'Title' } })).toThrow('CSV mapping must include a name or id column');
+    expect(() => csvToYAML(csv, { mapping: { name: 'Employee' } })).toThrow('Column "Employee" mapped to name not found in CSV header');
+    expect(() => csvToYAML('', { mapping: { name: 'Name' } })).toThrow('CSV file is empty');
+  });
+});
+
+describe('nodesToCSV', () => {
+  it('writes id and parentId first, then other fields in first-seen order', () => {
+    const nodes: OrgNode[] = [
+      { id: 1, parentId: null, name: 'Alice', _autoGeneratedId: true },
+      { id: 2, parentId: 1, name: 'Bob', title: 'CTO' },
+    ];
+    expect(nodesToCSV(nodes)).toBe('id,parentId,name,title\r\n1,,Alice,\r\n2,1,Bob,CTO\r\n');
+  });
+
+  it('quotes cells with delimiters, quotes, newlines or edge spaces', () => {
+    const nodes: OrgNode[] = [{ id: 1, parentId: null, name: 'Lee, Ann', note: 'said "hi"\nbye', code: ' x ' }];
+    expect(nodesToCSV(nodes).split('\r\n')[1]).toBe('1,,"Lee, Ann","said ""hi""\nbye"," x "');
+  });
+
+  it('neutralizes text a spreadsheet would run as a formula', () => {
+    const nodes: OrgNode[] = [
+      { id: 1, parentId: null, a: '=HYPERLINK("http://x")', b: '+1', c: '-2', d: '@SUM(A1)', e: -5 },
+    ];
+    expect(nodesToCSV(nodes).split('\r\n')[1]).toBe(`1,,"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),-5`);
+  });
+
+  it('writes dates as YYYY-MM-DD and lists joined by semicolons', () => {
+    const doc = OrgDocument.parse('- id: 1\n  start: 2024-03-01\n  skills: [Go, Rust]\n');
+    expect(nodesToCSV(doc.nodes).split('\r\n')[1]).toBe('1,,2024-03-01,Go; Rust');
+  });
+
+  it('round-trips through parseCSV', () => {
+    const nodes: OrgNode[] = [{ id: 1, parentId: null, name: 'Lee, Ann' }, { id: 2, parentId: 1, name: 'Bob "B"' }];
+    expect(parseCSV(nodesToCSV(nodes))).toEqual([['id', 'parentId', 'name'], ['1', '', 'Lee, Ann'], ['2', '1', 'Bob "B"']]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HistoryManager } from '../../src/historyManager.js';
+
+/** A counter whose changes are recorded as history entries */
+function counter(history: HistoryManager, source?: string) {
+  const state = { value: 0 };
+  const add = (amount: number, label = `Add ${amount}`) => {
+    state.value += amount;
+    history.push({
+      label,
+      undo: () => { state.value -= amount; },
+      redo: () => { state.value += amount; },
+      source,
+    });
+  };
+  return { state, add };
+}
+
+describe('HistoryManager', () => {
+  it('undoes and redoes entries in order and returns their labels', () => {
+    const history = new HistoryManager();
+    const { state, add } = counter(history);
+    add(1);
+    add(2);
+
+    expect(history.undo()).toBe('Add 2');
+    expect(state.value).toBe(1);
+    expect(history.undo()).toBe('Add 1');
+    expect(state.value).toBe(0);
+    expect(history.undo()).toBeNull();
+
+    expect(history.redo()).toBe('Add 1');
+    expect(history.redo()).toBe('Add 2');
+    expect(state.value).toBe(3);
+    expect(history.redo()).toBeNull();
+  });
+
+  it('reports the labels of the next undo and redo', () => {
+    const history = new HistoryManager();
+    const { add } = counter(history);
+    expect(history.canUndo()).toBe(false);
+    expect(history.undoLabel()).toBeNull();
+
+    add(1, 'Format YAML');
+    history.undo();
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(true);
+    expect(history.redoLabel()).toBe('Format YAML');
+  });
+
+  it('clears the redo stack when a new entry is pushed', () => {
+    const history = new HistoryManager();
+    const { add } = counter(history);
+    add(1);
+    history.undo();
+    add(5);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undoLabel()).toBe('Add 5');
+  });
+
+  it('keeps at most `limit` entries', () => {
+    const history = new HistoryManager({ limit: 2 });
+    const { add } = counter(history);
+    add(1);
+    add(2);
+    add(3);
+    expect(history.undo()).toBe('Add 3');
+    expect(history.undo()).toBe('Add 2');
+    expect(history.undo()).toBeNull();
+  });
+
+  it('is applying only while an undo or redo callback runs', () => {
+    const history = new HistoryManager();
+    const seen: boolean[] = [];
+    history.push({ label: 'x', undo: () => seen.push(history.isApplying()), redo: () => seen.push(history.isApplying()) });
+    history.undo();
+    history.redo();
+    expect(seen).toEqual([true, true]);
+    expect(history.isApplying()).toBe(false);
+  });
+
+  it('notifies on every change', () => {
+    const onChange = vi.fn();
+    const history = new HistoryManager({ onChange });
+    const { add } = counter(history);
+    add(1);
+    history.undo();
+    history.redo();
+    history.clear();
+    expect(onChange).toHaveBeenCalledTimes(4);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  describe('entries mirroring another history', () => {
+    it('moves the newest entry of a source without running it', () => {
+      const history = new HistoryManager();
+      const editor = counter(history, 'editor');
+      const chart = counter(history);
+      editor.add(1, 'Edit YAML');
+      chart.add(10, 'Set columns');
+
+      // The editor undid its own step
+      history.markUndone('editor');
+      expect(editor.state.value).toBe(1);
+      expect(history.undoLabel()).toBe('Set columns');
+      expect(history.redoLabel()).toBe('Edit YAML');
+
+      history.markRedone('editor');
+      expect(history.undoLabel()).toBe('Edit YAML');
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('ignores sources without entries', () => {
+      const onChange = vi.fn();
+      const history = new HistoryManager({ onChange });
+      history.markUndone('editor');
+      history.markRedone('editor');
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,430 @@
+import { describe, expect, it } from 'vitest';
+import { OrgDocument, parseSchemaField, splitSections } from '../../src/orgDocument.js';
+
+const messages = (doc: OrgDocument) => doc.diagnostics.map(d => d.message);
+
+describe('OrgDocument', () => {
+  describe('parsing', () => {
+    it('reads front matter sections and data items', () => {
+      const doc = OrgDocument.parse(`---
+options:
+  nodeWidth: 200
+schema:
+  name: string | required
+card:
+  - div: $name$
+---
+- id: 1
+  name: Alice
+- id: 2
+  parentId: 1
+  name: Bob
+`);
+      expect(doc.options.nodeWidth).toBe(200);
+      expect(doc.schema.name).toMatchObject({ type: 'string', required: true });
+      expect(doc.card).toEqual([{ div: '$name$' }]);
+      expect(doc.items).toHaveLength(2);
+      expect(doc.diagnostics).toEqual([]);
+    });
+
+    it('splits the source into front matter and data with their offsets', () => {
+      const source = '---\noptions: {}\n---\n- id: 1\n';
+      const sections = splitSections(source);
+      expect(sections.frontMatter).toBe('options: {}');
+      expect(sections.data).toBe('- id: 1');
+      expect(source.slice(sections.dataOffset)).toBe('- id: 1\n');
+    });
+
+    it('treats a source without front matter as data only', () => {
+      expect(splitSections('- id: 1')).toMatchObject({ frontMatter: null, data: '- id: 1', dataOffset: 0 });
+    });
+
+    it('reports YAML syntax errors with their line', () => {
+      const doc = OrgDocument.parse('- id: 1\n  name: [Alice\n');
+      expect(doc.items).toBeNull();
+      expect(doc.hasErrors).toBe(true);
+      expect(doc.diagnostics[0].line).toBeGreaterThan(1);
+    });
+
+    it('requires the data to be a list', () => {
+      const doc = OrgDocument.parse('name: Alice');
+      expect(messages(doc)).toEqual(['YAML data must be an array of objects (start each item with "- ")']);
+    });
+
+    it('reports empty and non-object items instead of failing', () => {
+      const doc = OrgDocument.parse('- id: 1\n  name: Alice\n-\n- just text\n');
+      expect(messages(doc)).toEqual([
+        'Line 3: Empty item - each item must be an object with fields (e.g. "- name: ...")',
+        'Line 4: Item must be an object with fields, not "just text"',
+      ]);
+      expect(doc.nodes).toEqual([]);
+    });
+  });
+
+  describe('resolving the hierarchy', () => {
+    it('uses id and parentId', () => {
+      const doc = OrgDocument.parse('- id: 1\n  name: Alice\n- id: 2\n  parentId: 1\n  name: Bob\n');
+      expect(doc.nodes.map(n => [n.id, n.parentId])).toEqual([[1, null], [2, 1]]);
+      expect(doc.roots.map(n => n.name)).toEqual(['Alice']);
+    });
+
+    it('resolves supervisor names case-insensitively and generates ids', () => {
+      const doc = OrgDocument.parse('- name: Alice\n- name: Bob\n  supervisor: alice\n- name: Carol\n  manager: Bob\n');
+      const [alice, bob, carol] = doc.nodes;
+      expect(alice._autoGeneratedId).toBe(true);
+      expect(bob.parentId).toBe(alice.id);
+      expect(carol.parentId).toBe(bob.id);
+      expect(doc.diagnostics).toEqual([]);
+    });
+
+    it('uses emails as generated ids', () => {
+      const doc = OrgDocument.parse('- name: Alice\n  email: Alice@Example.com\n- name: Bob\n  supervisor: alice@example.com\n');
+      expect(doc.nodes[0].id).toBe('alice@example.com');
+      expect(doc.nodes[1].parentId).toBe('alice@example.com');
+    });
+
+    it('matches supervisors against a configured name field', () => {
+      const doc = OrgDocument.parse('- fullName: Alice\n- fullName: Bob\n  supervisor: Alice\n- fullName: Carol\n', { nameField: 'fullName' });
+      expect(doc.nodes[1].parentId).toBe(doc.nodes[0].id);
+      expect(messages(doc)).toEqual(['Line 4: Multiple root nodes detected - only one node can have no supervisor (fullName: Carol)']);
+    });
+
+    it('flags a second root', () => {
+      const doc = OrgDocument.parse('- id: 1\n  parentId: null\n- id: 2\n  parentId: null\n');
+      expect(messages(doc)).toEqual(['Line 4: Multiple root nodes detected - only one node can have parentId: null (node id: 2)']);
+    });
+
+    it('flags a parentId that matches no node', () => {
+      const doc = OrgDocument.parse('- id: 1\n- id: 2\n  parentId: 9\n');
+      expect(messages(doc)).toEqual(['Line 3: Invalid parentId "9" - no node with this id exists']);
+    });
+
+    it('counts direct and total reports', () => {
+      const doc = OrgDocument.parse('- id: 1\n- id: 2\n  parentId: 1\n- id: 3\n  parentId: 2\n- id: 4\n  parentId: 1\n');
+      const [root, second] = doc.nodes;
+      expect(doc.directReports(root).map(n => n.id)).toEqual([2, 4]);
+      expect(doc.totalReports(root)).toBe(3);
+      expect(doc.parentNode(second)).toBe(root);
+      expect(doc.parentNode(root)).toBeUndefined();
+    });
+
+    it('locates items by line', () => {
+      const doc = OrgDocument.parse('---\noptions: {}\n---\n- id: 1\n  name: Alice\n- id: 2\n  parentId: 1\n');
+      expect(doc.itemLine(0)).toBe(4);
+      expect(doc.itemLine(1)).toBe(6);
+    });
+  });
+
+  describe('JSON documents', () => {
+    const JSON_SOURCE = `{
+  "options": { "forest": "side-by-side" },
+  "schema": { "age": "number" },
+  "data": [
+    { "id": 1, "name": "Alice", "start": "2021-03-05" },
+    { "id": 2, "parentId": 1, "name": "Bob", "age": "forty" }
+  ]
+}`;
+
+    it('reads the front matter sections and the items under data', () => {
+      const doc = OrgDocument.parse(JSON_SOURCE);
+      expect(doc.format).toBe('json');
+      expect(doc.forest).toBe('side-by-side');
+      expect(doc.nodes.map(n => n.name)).toEqual(['Alice', 'Bob']);
+      expect(messages(doc)).toEqual(['Line 6: Field "age" should be a number, got "forty"']);
+    });
+
+    it('reads a plain array as data only', () => {
+      const doc = OrgDocument.parse('[{ "id": 1, "name": "Alice" }, { "id": 2, "parentId": 1, "name": "Bob" }]');
+      expect(doc.format).toBe('json');
+      expect(doc.toJSON()).toEqual([{ id: 1, name: 'Alice' }, { id: 2, parentId: 1, name: 'Bob' }]);
+    });
+
+    it('reports JSON syntax errors', () => {
+      const doc = OrgDocument.parse('{ "data": [ { "id": 1, } ');
+      expect(doc.hasErrors).toBe(true);
+      expect(doc.nodes).toEqual([]);
+    });
+
+    it('locates items by source offset', () => {
+      const doc = OrgDocument.parse(JSON_SOURCE);
+      expect(doc.itemIndexAt(JSON_SOURCE.indexOf('"Bob"'))).toBe(1);
+      expect(doc.itemIndexAt(JSON_SOURCE.indexOf('"options"'))).toBe(-1);
+    });
+
+    it('writes YAML documents as JSON with dates as days', () => {
+      const doc = OrgDocument.parse('---\nschema:\n  start: date\n---\n- id: 1\n  name: Alice\n  start: 2021-03-05\n');
+      expect(doc.format).toBe('yaml');
+      expect(doc.toJSON()).toEqual({ schema: { start: 'date' }, data: [{ id: 1, name: 'Alice', start: '2021-03-05' }] });
+    });
+  });
+
+  describe('dotted-line relationships', () => {
+    it('resolves dotted-line fields to connections by name, then by id', () => {
+      const doc = OrgDocument.parse(`---
+schema:
+  dotted_line: [name]
+---
+- id: 1
+  name: Alice
+- id: 2
+  parentId: 1
+  name: Bob
+- id: 3
+  parentId: 1
+  name: Carol
+  dotted_line: [bob, 1]
+`);
+      expect(doc.connections).toEqual([
+        { from: 2, to: 3, label: 'Dotted line', field: 'dotted_line' },
+        { from: 1, to: 3, label: 'Dotted line', field: 'dotted_line' },
+      ]);
+      expect(doc.diagnostics).toEqual([]);
+    });
+
+    it('matches the fields the schema lists and warns about unknown references', () => {
+      const doc = OrgDocument.parse(`---
+schema:
+  projectLead: [email]
+---
+- id: 1
+  name: Alice
+  email: alice@example.com
+- id: 2
+  parentId: 1
+  name: Bob
+  projectLead: ALICE@example.com
+- id: 3
+  parentId: 1
+  name: Carol
+  projectLead: Alice
+`);
+      expect(doc.connections).toEqual([{ from: 1, to: 2, label: 'Project lead', field: 'projectLead' }]);
+      expect(messages(doc)).toEqual(['Line 15: Unknown projectLead reference "Alice" - no node with email "Alice"']);
+    });
+  });
+
+  describe('forests', () => {
+    const TWO_TREES = '- id: 1\n  name: Alice\n- id: 2\n  name: Bob\n';
+
+    it('notes additional roots instead of flagging them', () => {
+      const doc = OrgDocument.parse(`---\noptions:\n  forest: side-by-side\n---\n${TWO_TREES}`);
+      expect(doc.forest).toBe('side-by-side');
+      expect(doc.roots.map(n => n.name)).toEqual(['Alice', 'Bob']);
+      expect(doc.hasErrors).toBe(false);
+      expect(doc.diagnostics.map(d => [d.severity, d.message])).toEqual([
+        ['info', 'Line 7: Additional root node - drawn as a separate tree (node id: 2)'],
+      ]);
+    });
+
+    it('takes the forest mode from the config when the front matter has none', () => {
+      const doc = OrgDocument.parse(TWO_TREES, { forest: 'synthetic-root' });
+      expect(doc.forest).toBe('synthetic-root');
+      expect(messages(doc)).toEqual(['Line 3: Additional root node - placed under the synthetic root (node id: 2)']);
+    });
+
+    it('flags an unknown forest mode and keeps a single tree', () => {
+      const doc = OrgDocument.parse(`---\noptions:\n  forest: yes\n---\n${TWO_TREES}`);
+      expect(doc.forest).toBeUndefined();
+      expect(messages(doc)).toEqual([
+        'Line 3: Unknown forest mode "yes" - use side-by-side or synthetic-root',
+        'Line 7: Multiple root nodes detected - only one node can have parentId: null (node id: 2)',
+      ]);
+    });
+  });
+
+  describe('reporting cycles', () => {
+    it('reports a cycle on every member, starting from its first item', () => {
+      const doc = OrgDocument.parse('- id: 1\n  name: Alice\n- id: 2\n  parentId: 3\n  name: Bob\n- id: 3\n  parentId: 2\n  name: Carol\n');
+      expect(doc.cycles.map(cycle => cycle.map(n => n.name))).toEqual([['Bob', 'Carol']]);
+      expect(messages(doc)).toEqual([
+        'Line 4: Reporting cycle: Bob → Carol → Bob',
+        'Line 7: Reporting cycle: Carol → Bob → Carol',
+      ]);
+    });
+
+    it('reports a node that is its own manager', () => {
+      const doc = OrgDocument.parse('- id: 1\n  name: Alice\n- id: 2\n  parentId: 2\n  name: Bob\n');
+      expect(messages(doc)).toEqual(['Line 4: Bob reports to itself']);
+    });
+
+    it('follows supervisor names as well as parentIds', () => {
+      const doc = OrgDocument.parse('- name: Alice\n- name: Bob\n  supervisor: Carol\n- name: Carol\n  supervisor: Bob\n');
+      expect(messages(doc)).toEqual([
+        'Line 3: Reporting cycle: Bob → Carol → Bob',
+        'Line 5: Reporting cycle: Carol → Bob → Carol',
+      ]);
+    });
+
+    it('leaves the cycle and everyone below it out of the drawable nodes', () => {
+      const doc = OrgDocument.parse('- id: 1\n- id: 2\n  parentId: 1\n- id: 3\n  parentId: 4\n- id: 4\n  parentId: 3\n- id: 5\n  parentId: 4\n');
+      expect(doc.acyclicNodes.map(n => n.id)).toEqual([1, 2]);
+    });
+
+    it('draws every node when there is no cycle', () => {
+      const doc = OrgDocument.parse('- id: 1\n- id: 2\n  parentId: 1\n');
+      expect(doc.cycles).toEqual([]);
+      expect(doc.acyclicNodes).toBe(doc.nodes);
+    });
+  });
+
+  describe('duplicates', () => {
+    it('flags a repeated id as an error on the later item', () => {
+      const doc = OrgDocument.parse('- id: 1\n  name: Alice\n- id: 2\n  parentId: 1\n  name: Bob\n- id: 2\n  parentId: 1\n  name: Carol\n');
+      expect(doc.diagnostics.map(d => [d.severity, d.message])).toEqual([
+        ['error', 'Line 6: Duplicate id "2" - already used on line 3'],
+      ]);
+    });
+
+    it('warns when an email is already taken as an id', () => {
+      const doc = OrgDocument.parse('- name: Alice\n  email: alice@example.com\n- name: Bob\n  email: Alice@example.com\n  supervisor: Alice\n');
+      expect(doc.diagnostics.map(d => [d.severity, d.message])).toEqual([
+        ['warning', 'Line 4: Duplicate email "alice@example.com" - already the id of the node on line 1, so this node gets a generated id'],
+      ]);
+      expect(doc.nodes[1].id).not.toBe(doc.nodes[0].id);
+    });
+
+    it('warns about a supervisor name shared by several people', () => {
+      const doc = OrgDocument.parse('- name: Dana\n- name: Alice\n  supervisor: Dana\n- name: Alice\n  supervisor: Dana\n- name: Carol\n  supervisor: Alice\n');
+      expect(messages(doc)).toEqual(['Line 7: Ambiguous supervisor "Alice" - 2 people share this name (lines 2, 4); use their email or id instead']);
+    });
+
+    it('accepts an email to pick one of two people with the same name', () => {
+      const doc = OrgDocument.parse('- name: Alice\n  email: alice.a@example.com\n- name: Alice\n  email: alice.b@example.com\n  supervisor: alice.a@example.com\n- name: Bob\n  supervisor: alice.b@example.com\n');
+      expect(doc.diagnostics).toEqual([]);
+      expect(doc.nodes[2].parentId).toBe('alice.b@example.com');
+    });
+  });
+
+  describe('schema validation', () => {
+    const withSchema = (schema: string, data: string, options = '') =>
+      OrgDocument.parse(`---\n${options}schema:\n${schema}---\n${data}`);
+
+    it('checks values against their field types', () => {
+      const doc = withSchema(
+        '  age: number\n  remote: boolean\n  email: email\n  site: url\n  team: enum[Engineering, Sales]\n',
+        '- id: 1\n  age: forty\n  remote: yes please\n  email: alice\n  site: example\n  team: Legal\n');
+      expect(messages(doc)).toEqual([
+        'Line 10: Field "age" should be a number, got "forty"',
+        'Line 11: Field "remote" should be true or false, got "yes please"',
+        'Line 12: Field "email" should be an email address, got "alice"',
+        'Line 13: Field "site" should be a URL, got "example"',
+        'Line 14: Field "team" should be one of Engineering, Sales, got "Legal"',
+      ]);
+    });
+
+    it('accepts values that fit their types', () => {
+      const doc = withSchema(
+        '  age: number\n  remote: boolean\n  email: email\n  start: date\n  team: enum[Engineering, Sales]\n',
+        '- id: 1\n  age: 40\n  remote: true\n  email: alice@example.com\n  start: 2024-02-29\n  team: Sales\n');
+      expect(doc.diagnostics).toEqual([]);
+    });
+
+    it('rejects impossible calendar dates', () => {
+      const doc = withSchema('  start: date\n', '- id: 1\n  start: 2024-02-30\n- id: 2\n  parentId: 1\n  start: 2023-02-29\n');
+      expect(messages(doc)).toEqual([
+        'Line 6: Field "start" should be a date (YYYY-MM-DD), got "2024-02-30"',
+        'Line 9: Field "start" should be a date (YYYY-MM-DD), got "2023-02-29"',
+      ]);
+    });
+
+    it('reports missing required fields with the severity the schema asks for', () => {
+      const doc = withSchema('  name: string | required\n  email: email | required | error\n', '- id: 1\n  name: ""\n');
+      expect(doc.diagnostics.map(d => [d.severity, d.message])).toEqual([
+        ['warning', 'Line 6: Missing required field "name" (id: 1)'],
+        ['error', 'Line 6: Missing required field "email" (id: 1)'],
+      ]);
+    });
+
+    it('checks a field under its aliases', () => {
+      const doc = withSchema('  department: "string | alias: dept"\n', '- id: 1\n  dept: [a, b]\n');
+      expect(messages(doc)).toEqual(['Line 6: Field "dept" should be text, got a list']);
+    });
+
+    it('flags undeclared fields only with strictSchema', () => {
+      const data = '- id: 1\n  name: Alice\n  nickname: Al\n';
+      expect(withSchema('  title: string\n', data).diagnostics).toEqual([]);
+      expect(messages(withSchema('  title: string\n', data, 'options:\n  strictSchema: true\n'))).toEqual([
+        'Line 9: Unknown field "nickname" - not declared in the schema',
+      ]);
+    });
+  });
+
+  describe('schema constraints', () => {
+    it('reads pattern, min, max and default constraints', () => {
+      expect(parseSchemaField('string | pattern: /^[A-Z]{2}-\\d+$/i')).toMatchObject({ type: 'string', pattern: '^[A-Z]{2}-\\d+$', patternFlags: 'i' });
+      expect(parseSchemaField('number | min: 0 | max: 120 | default: 1')).toMatchObject({ type: 'number', min: 0, max: 120, default: 1 });
+      expect(parseSchemaField('boolean | default: TRUE').default).toBe(true);
+      expect(parseSchemaField("number | default: '7'").default).toBe('7');
+    });
+
+    it('keeps commas inside quoted enum values', () => {
+      expect(parseSchemaField(`enum["Sales, EMEA", 'R&D', Legal] | default: Legal`)).toMatchObject({
+        type: 'enum',
+        values: ['Sales, EMEA', 'R&D', 'Legal'],
+        default: 'Legal',
+      });
+    });
+
+    it('leaves out malformed constraints and reports them', () => {
+      const problems: string[] = [];
+      const field = parseSchemaField('number | min: zero | max: | pattern: ^x$', (constraint, problem) => problems.push(`${constraint}: ${problem}`));
+      expect(field).toMatchObject({ min: undefined, max: undefined, pattern: undefined });
+      expect(problems).toEqual([
+        'pattern: write it as /regex/ or /regex/flags, got "^x$"',
+        'min: should be a number, got "zero"',
+        'max: should be a number, got ""',
+      ]);
+    });
+
+    it('checks values against patterns and bounds', () => {
+      const doc = OrgDocument.parse(`---
+schema:
+  code: 'string | pattern: /^[A-Z]{2}-\\d+$/'
+  age: "number | min: 18 | max: 70"
+---
+- id: 1
+  code: ab-12
+  age: 16
+- id: 2
+  parentId: 1
+  code: AB-12
+  age: 71
+`);
+      expect(messages(doc)).toEqual([
+        'Line 7: Field "code" should match /^[A-Z]{2}-\\d+$/, got "ab-12"',
+        'Line 8: Field "age" should be at least 18, got 16',
+        'Line 12: Field "age" should be at most 70, got 71',
+      ]);
+    });
+
+    it('fills in defaults and does not require fields that have one', () => {
+      const doc = OrgDocument.parse(`---
+schema:
+  location: "enum[Remote, Office] | required | default: Office"
+---
+- id: 1
+- id: 2
+  parentId: 1
+  location: Remote
+`);
+      expect(doc.diagnostics).toEqual([]);
+      expect(doc.nodes.map(n => n.location)).toEqual(['Office', 'Remote']);
+    });
+
+    it('warns about malformed constraints and invalid patterns on their schema lines', () => {
+      const doc = OrgDocument.parse(`---
+schema:
+  age: "number | min: ten"
+  code: "string | pattern: /(/"
+---
+- id: 1
+  age: 5
+  code: x
+`);
+      expect(messages(doc)).toEqual([
+        'Line 3: Invalid min for field "age" - should be a number, got "ten"',
+        expect.stringMatching(/^Line 4: Invalid pattern for field "code" - Invalid regular expression/),
+      ]);
+    });
+  });
+});
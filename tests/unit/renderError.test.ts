@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { OrgDocument } from '../../src/orgDocument.js';
+import { describeRejectedEdit, describeRenderError, TemplateRenderError } from '../../src/renderError.js';
+
+const SOURCE = '- id: 1\n  name: Alice\n- id: 2\n  parentId: 1\n  name: Bob\n- id: 2\n  parentId: 1\n  name: Carol\n';
+
+describe('describeRenderError', () => {
+  const doc = OrgDocument.parse(SOURCE);
+
+  it('points a card template error at the node whose card failed', () => {
+    const original = new Error('boom');
+    const info = describeRenderError(new TemplateRenderError(1, original), doc);
+    expect(info).toEqual({
+      category: 'template',
+      title: 'Card template error',
+      message: 'Rendering this card failed: boom',
+      nodeId: 1,
+      nodeName: 'Alice',
+      line: 1,
+      error: expect.any(TemplateRenderError),
+    });
+    expect((info.error as TemplateRenderError).original).toBe(original);
+  });
+
+  it('explains an ambiguous id at its second use', () => {
+    const info = describeRenderError(new Error('ambiguous: 2'), doc);
+    expect(info).toMatchObject({
+      category: 'duplicate-id',
+      title: 'Duplicate id',
+      message: 'More than one node has the id "2", so its reports can\'t be placed',
+      nodeName: 'Carol',
+      line: 6,
+    });
+  });
+
+  it('explains a missing parent at the node that references it', () => {
+    const info = describeRenderError(new Error('missing: 9'), OrgDocument.parse('- id: 1\n- id: 2\n  parentId: 9\n'));
+    expect(info).toMatchObject({ category: 'missing-parent', message: 'No node has the id "9" referenced as a parent', nodeId: 2, line: 2 });
+  });
+
+  it('explains cycles and root problems', () => {
+    const cyclic = OrgDocument.parse('- id: 1\n- id: 2\n  parentId: 3\n- id: 3\n  parentId: 2\n');
+    expect(describeRenderError(new Error('cycle'), cyclic)).toMatchObject({ category: 'cycle', title: 'Reporting cycle', nodeId: 2, line: 2 });
+    expect(describeRenderError(new Error('multiple roots'), doc)).toMatchObject({
+      category: 'multiple-roots',
+      message: 'More than one node is at the top of the chart',
+      line: undefined,
+    });
+    expect(describeRenderError(new Error('no root'), doc).message).toBe('No node is at the top of the chart');
+  });
+
+  it('passes other errors through unclassified', () => {
+    expect(describeRenderError('something odd', doc)).toEqual({
+      category: 'unknown',
+      title: 'Chart could not be rendered',
+      message: 'something odd',
+      nodeId: undefined,
+      nodeName: undefined,
+      line: undefined,
+      error: 'something odd',
+    });
+  });
+});
+
+describe('describeRejectedEdit', () => {
+  const doc = OrgDocument.parse(SOURCE);
+
+  it('explains a refused edit at the node it concerns', () => {
+    expect(describeRejectedEdit("Bob reports to this node, so it can't become its manager", doc, 0)).toEqual({
+      category: 'rejected-edit',
+      title: 'Change not applied',
+      message: "Bob reports to this node, so it can't become its manager",
+      nodeId: 1,
+      nodeName: 'Alice',
+      line: 1,
+      error: null,
+    });
+  });
+
+  it('leaves out the node when there is none', () => {
+    expect(describeRejectedEdit('The YAML data is not a list of people', doc, -1)).toMatchObject({ nodeId: undefined, line: undefined });
+  });
+});
@@ -0,0 +1,77 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, sanitizeHtml } from '../../src/sanitize.js';
+import { renderCard } from '../../src/cardTemplate.js';
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml('<img src=x onerror="alert(1)">')).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    expect(escapeHtml("O'Brien & Co")).toBe('O&#39;Brien &amp; Co');
+  });
+
+  it('turns missing values into empty text', () => {
+    expect(escapeHtml(undefined)).toBe('');
+    expect(escapeHtml(null)).toBe('');
+    expect(escapeHtml(42)).toBe('42');
+  });
+});
+
+describe('sanitizeHtml', () => {
+  it('keeps allow-listed tags and attributes', () => {
+    expect(sanitizeHtml('<b class="x">Bold</b> <a href="https://example.com" title="t">link</a>'))
+      .toBe('<b class="x">Bold</b> <a href="https://example.com" title="t">link</a>');
+  });
+
+  it('removes event handlers', () => {
+    const html = sanitizeHtml('<span onclick="alert(1)">Hi</span><img src="a.png" onerror="alert(1)">');
+    expect(html).not.toMatch(/onclick|onerror/);
+    expect(html).toContain('<span>Hi</span>');
+    expect(html).toContain('src="a.png"');
+  });
+
+  it('drops scripts, styles and embeds with their content', () => {
+    expect(sanitizeHtml('a<script>alert(1)</script>b<style>*{}</style><iframe src="x"></iframe>c')).toBe('abc');
+  });
+
+  it('unwraps disallowed tags but keeps their content', () => {
+    expect(sanitizeHtml('<form><button>Go</button></form>')).toBe('Go');
+  });
+
+  it('removes javascript: URLs, including obfuscated ones', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href=" java\tscript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img src="JAVASCRIPT:alert(1)">')).toBe('<img>');
+  });
+
+  it('allows image data URLs only in src', () => {
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA">')).toBe('<img src="data:image/png;base64,AAAA">');
+    expect(sanitizeHtml('<img src="data:text/html;base64,AAAA">')).toBe('<img>');
+    expect(sanitizeHtml('<a href="data:image/png;base64,AAAA">x</a>')).toBe('<a>x</a>');
+  });
+
+  it('removes scripting styles', () => {
+    expect(sanitizeHtml('<div style="background:url(javascript:alert(1))">x</div>')).toBe('<div>x</div>');
+    expect(sanitizeHtml('<div style="color:red">x</div>')).toBe('<div style="color:red">x</div>');
+  });
+
+  it('protects the page from links opening new tabs', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_blank">x</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+});
+
+describe('card values', () => {
+  const template = [{ div: '$name$' }, { div: '$bio$' }];
+  const data = { name: '<b>Ann</b>', bio: '<i>Hi</i><img src=x onerror="alert(1)">' };
+
+  it('inserts field values as text', () => {
+    expect(renderCard(template, data)).toBe('<div>&lt;b&gt;Ann&lt;/b&gt;</div><div>&lt;i&gt;Hi&lt;/i&gt;&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</div>');
+  });
+
+  it('keeps the markup of html fields for the card sanitizing to clean', () => {
+    const schema = { bio: { type: 'string', required: false, missing: false, html: true } };
+    const html = sanitizeHtml(renderCard(template, data, schema));
+    expect(html).toContain('<i>Hi</i>');
+    expect(html).not.toContain('onerror');
+  });
+});
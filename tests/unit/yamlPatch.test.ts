@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { YamlPatch } from '../../src/yamlPatch.js';
+
+const SOURCE = `---
+card:
+  - div: $name$
+---
+# Leadership
+- id: 1
+  name: 'Alice'   # founder
+  title: CEO
+# Engineering
+- id: 2
+  parentId: 1
+  name: "Bob"
+- id: 3
+  supervisor: Alice
+  name: Carol
+`;
+
+describe('YamlPatch', () => {
+  it('counts the items in the data section', () => {
+    expect(new YamlPatch(SOURCE).itemCount).toBe(3);
+  });
+
+  it('replaces a value in place and keeps its quote style and comments', () => {
+    const result = new YamlPatch(SOURCE).setField(0, 'name', 'Alicia').toString();
+    expect(result).toBe(SOURCE.replace(`name: 'Alice'`, `name: 'Alicia'`));
+
+    const double = new YamlPatch(SOURCE).setField(1, 'name', 'Robert').toString();
+    expect(double).toBe(SOURCE.replace(`name: "Bob"`, `name: "Robert"`));
+  });
+
+  it('adds a new field after the given key, or at the end of the item', () => {
+    const after = new YamlPatch(SOURCE).setField(2, 'parentId', 1, { after: 'id' }).toString();
+    expect(after).toBe(SOURCE.replace('- id: 3\n', '- id: 3\n  parentId: 1\n'));
+
+    const end = new YamlPatch(SOURCE).setField(2, 'title', 'CTO').toString();
+    expect(end).toBe(`${SOURCE}  title: CTO\n`);
+  });
+
+  it('removes a field line and leaves the rest untouched', () => {
+    const result = new YamlPatch(SOURCE).deleteField(2, 'supervisor').toString();
+    expect(result).toBe(SOURCE.replace('  supervisor: Alice\n', ''));
+    expect(new YamlPatch(SOURCE).deleteField(2, 'missing').toString()).toBe(SOURCE);
+  });
+
+  it('keeps the remaining keys when the first key of an item is deleted', () => {
+    const result = new YamlPatch(SOURCE).deleteField(2, 'id').toString();
+    expect(result).toBe(SOURCE.replace('- id: 3\n  supervisor', '- supervisor'));
+  });
+
+  it('swaps the text of two items and leaves comments between them in place', () => {
+    const result = new YamlPatch(SOURCE).swapItems(0, 1).toString();
+    expect(result).toBe(`---
+card:
+  - div: $name$
+---
+# Leadership
+- id: 2
+  parentId: 1
+  name: "Bob"
+# Engineering
+- id: 1
+  name: 'Alice'   # founder
+  title: CEO
+- id: 3
+  supervisor: Alice
+  name: Carol
+`);
+  });
+
+  it('inserts and removes items in block style', () => {
+    const inserted = new YamlPatch(SOURCE).insertItem(3, { id: 4, parentId: 1, name: 'Dan' }).toString();
+    expect(inserted).toBe(`${SOURCE}- id: 4\n  parentId: 1\n  name: Dan\n`);
+
+    const removed = new YamlPatch(SOURCE).removeItem(2).toString();
+    expect(removed).toBe(SOURCE.replace('- id: 3\n  supervisor: Alice\n  name: Carol\n', ''));
+    expect(() => new YamlPatch(SOURCE).insertItem(5, { id: 5 })).toThrow('out of range');
+  });
+
+  it('writes the first item into an empty data section', () => {
+    const result = new YamlPatch('---\ncard:\n  - div: $name$\n---\n').insertItem(0, { id: 1, name: 'Alice' }).toString();
+    expect(result).toBe('---\ncard:\n  - div: $name$\n---\n- id: 1\n  name: Alice\n');
+  });
+
+  it('edits JSON documents as values and keeps their indentation', () => {
+    const source = `${JSON.stringify({ data: [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }] }, null, 4)}\n`;
+    const result = new YamlPatch(source)
+      .setField(1, 'parentId', 1, { after: 'id' })
+      .deleteField(0, 'name')
+      .toString();
+    expect(result).toBe(`${JSON.stringify({ data: [{ id: 1 }, { id: 2, parentId: 1, name: 'Bob' }] }, null, 4)}\n`);
+  });
+});
@@ -0,0 +1,225 @@
+import { test, expect, type Page } from '@playwright/test';
+
+/**
+ * YChart Editor - Behavior Tests
+ *
+ * Load documents through the editor instance the demo page exposes as
+ * `window.ychartEditor` and check what the chart, the editor's error banner
+ * and the panels show for them.
+ */
+
+// Card content: SVG foreignObjects, or the HTML overlay that replaces them in Safari
+const CARDS = '[data-id^="ychart-chart-"] .node-foreign-object-div:visible, .overlay-node:visible';
+const ERROR_BANNER = '[id^="ychart-error-banner-"]';
+// Anything that could run script if a value or template slipped through unsanitized
+const UNSAFE = '[onclick], [onerror], [onload], [onmouseover], script, [href^="javascript:" i], [src^="javascript:" i]';
+
+async function load(page: Page, source: string) {
+  await page.evaluate(text => (window as any).ychartEditor.setYAML(text), source);
+  await page.waitForTimeout(500);
+  await page.locator('[data-id^="ychart-btn-expandAll-"]').click();
+  await page.waitForTimeout(500);
+}
+
+test.describe('YChart Editor - Behavior Tests', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('[data-id^="ychart-chart-"]', { timeout: 10000 });
+    await page.waitForTimeout(500);
+  });
+
+  test.describe('HTML Sanitizing', () => {
+    const XSS_YAML = `---
+schema:
+  bio: string | html
+card:
+  - div:
+      class: card-body
+      content: '<span onclick="window.__xss = 1">$name$</span><a href="javascript:window.__xss = 1">Profile</a>'
+  - div: $bio$
+---
+- id: 1
+  name: '<img src=x onerror="window.__xss = 1">'
+  bio: '<b>Bold bio</b><img src=x onerror="window.__xss = 1"><script>window.__xss = 1</script>'
+- id: 2
+  parentId: 1
+  name: Bob
+`;
+
+    test('should strip handlers and scripts from cards, details and search results', async ({ page }) => {
+      await load(page, XSS_YAML);
+
+      // Names are shown as text, html fields keep only safe markup
+      const card = page.locator(CARDS).filter({ hasText: 'onerror' }).first();
+      await expect(card).toContainText('<img src=x onerror="window.__xss = 1">');
+      await expect(card.locator('b')).toHaveText('Bold bio');
+      await expect(page.locator(CARDS).locator(UNSAFE)).toHaveCount(0);
+
+      await card.locator('.details-btn').click();
+      const details = page.locator('[data-id^="ychart-node-details-"]');
+      await expect(details).toContainText('Bold bio');
+      await expect(details.locator(UNSAFE)).toHaveCount(0);
+
+      await page.locator('[data-id^="ychart-search-input-"]').fill('onerror');
+      const results = page.locator('[data-id^="ychart-search-results-"]');
+      await expect(results.locator('.ychart-search-result-item').first()).toBeVisible();
+      await expect(results.locator(UNSAFE)).toHaveCount(0);
+
+      expect(await page.evaluate(() => (window as any).__xss)).toBeUndefined();
+    });
+  });
+
+  test.describe('Linting', () => {
+    test('should report reporting cycles', async ({ page }) => {
+      await load(page, `- id: 1
+  name: Alice
+- id: 2
+  parentId: 3
+  name: Bob
+- id: 3
+  parentId: 2
+  name: Carol
+`);
+      await expect(page.locator(ERROR_BANNER)).toContainText('Reporting cycle: Bob → Carol → Bob');
+    });
+
+    test('should report duplicate ids', async ({ page }) => {
+      await load(page, `- id: 1
+  name: Alice
+- id: 2
+  parentId: 1
+  name: Bob
+- id: 2
+  parentId: 1
+  name: Carol
+`);
+      await expect(page.locator(ERROR_BANNER)).toContainText('Duplicate id "2" - already used on line 3');
+    });
+
+    test('should validate fields against the schema', async ({ page }) => {
+      await load(page, `---
+schema:
+  name: string | required
+  age: number
+  start: date
+---
+- id: 1
+  name: Alice
+  age: forty
+- id: 2
+  parentId: 1
+  start: 2024-02-30
+`);
+      const banner = page.locator(ERROR_BANNER);
+      await expect(banner).toContainText('Field "age" should be a number, got "forty"');
+      await expect(banner).toContainText('Missing required field "name"');
+      await expect(banner).toContainText('Field "start" should be a date (YYYY-MM-DD), got "2024-02-30"');
+    });
+  });
+
+  test.describe('Card Templates', () => {
+    test('should apply if, each and pipes', async ({ page }) => {
+      await load(page, `---
+card:
+  - div: $name|"Unnamed"$
+  - div:
+      if: $title$
+      content: 'Title: $title$'
+  - span:
+      each: $skills$
+      content: '$_index$.$_item$ '
+  - div: 'Since $start|date:"MMM yyyy"$'
+---
+- id: 1
+  name: Alice
+  title: CEO
+  skills: [Go, Rust]
+  start: 2021-03-15
+- id: 2
+  parentId: 1
+  skills: []
+`);
+      const alice = page.locator(CARDS).filter({ hasText: 'Alice' }).first();
+      await expect(alice).toContainText('Title: CEO');
+      await expect(alice).toContainText('1.Go');
+      await expect(alice).toContainText('2.Rust');
+      await expect(alice).toContainText('Since Mar 2021');
+
+      const unnamed = page.locator(CARDS).filter({ hasText: 'Unnamed' }).first();
+      await expect(unnamed).toBeVisible();
+      await expect(unnamed).not.toContainText('Title:');
+    });
+
+    test('should pick named card templates by _card and when rules', async ({ page }) => {
+      await load(page, `---
+card:
+  - div: 'PLAIN $name$'
+cards:
+  exec:
+    when:
+      level: exec
+    template:
+      - div: 'EXEC $name$'
+  staff:
+    template:
+      - div: 'STAFF $name$'
+---
+- id: 1
+  name: Alice
+  level: exec
+- id: 2
+  parentId: 1
+  name: Bob
+  _card: staff
+- id: 3
+  parentId: 1
+  name: Carol
+`);
+      const cards = page.locator(CARDS);
+      await expect(cards.filter({ hasText: 'EXEC Alice' })).toHaveCount(1);
+      await expect(cards.filter({ hasText: 'STAFF Bob' })).toHaveCount(1);
+      await expect(cards.filter({ hasText: 'PLAIN Carol' })).toHaveCount(1);
+    });
+  });
+
+  test.describe('JSON Documents', () => {
+    test('should render JSON input and return it from getJSON()', async ({ page }) => {
+      const json = {
+        schema: { title: 'string' },
+        data: [
+          { id: 1, name: 'Alice', title: 'CEO' },
+          { id: 2, parentId: 1, name: 'Bob', title: 'CTO' },
+        ],
+      };
+      await load(page, JSON.stringify(json, null, 2));
+
+      await expect(page.locator(CARDS).filter({ hasText: 'Bob' })).toHaveCount(1);
+      const result = await page.evaluate(() => JSON.parse((window as any).ychartEditor.getJSON()));
+      expect(result.data).toEqual(json.data);
+      expect(result.schema).toEqual(json.schema);
+    });
+  });
+
+  test.describe('Render Errors', () => {
+    test('should show the render error overlay for a failing card template', async ({ page }) => {
+      await load(page, `- id: 1
+  name: Alice
+- id: 2
+  parentId: 1
+  name: Bob
+`);
+      await page.evaluate(() => {
+        (window as any).ychartEditor.template((d: any) => {
+          if (d.data.name === 'Bob') throw new Error('boom');
+          return `<div>${d.data.name}</div>`;
+        });
+      });
+
+      const overlay = page.locator('[data-id^="ychart-render-error-"][role="alert"]');
+      await expect(overlay).toBeVisible();
+      await expect(overlay).toContainText('Card template error');
+      await expect(overlay).toContainText('boom');
+      await expect(overlay).toContainText('Bob');
+    });
+  });
+});
@@ -63,6 +63,23 @@ test.describe('YChart Editor - Essential Tests V2', () => {
       await expect(btn).toBeVisible();
       await expect(btn).toBeEnabled();
     });
+
+    test('should have Move Mode button', async ({ page }) => {
+      const btn = page.locator('[data-id^="ychart-btn-move-"]');
+      await expect(btn).toBeVisible();
+      await expect(btn).toBeEnabled();
+    });
+
+    test('should have Dotted Lines toggle button', async ({ page }) => {
+      const btn = page.locator('[data-id^="ychart-btn-dottedLines-"]');
+      await expect(btn).toBeVisible();
+      await expect(btn).toBeEnabled();
+    });
+
+    test('should have Undo and Redo buttons disabled before any edit', async ({ page }) => {
+      await expect(page.locator('[data-id^="ychart-btn-undo-"]')).toBeDisabled();
+      await expect(page.locator('[data-id^="ychart-btn-redo-"]')).toBeDisabled();
+    });
   });
 
   test.describe('Button Interactions', () => {
@@ -128,6 +145,27 @@ test.describe('YChart Editor - Essential Tests V2', () => {
     });
   });
 
+  test.describe('Inline Editing', () => {
+    test('should open node editor on card double-click', async ({ page }) => {
+      const node = page.locator('[data-id^="ychart-chart-"] svg g.node').first();
+      await node.dblclick();
+      const nodeEditor = page.locator('[data-id^="ychart-node-editor-"][role="dialog"]');
+      await expect(nodeEditor).toBeVisible();
+      await page.keyboard.press('Escape');
+      await expect(nodeEditor).toHaveCount(0);
+    });
+  });
+
+  test.describe('Context Menu', () => {
+    test('should open node actions on card right-click', async ({ page }) => {
+      const node = page.locator('[data-id^="ychart-chart-"] svg g.node').first();
+      await node.click({ button: 'right' });
+      await expect(page.locator('[data-id^="ychart-node-menu-add-child-"]')).toBeVisible();
+      await page.keyboard.press('Escape');
+      await expect(page.locator('[data-id^="ychart-node-menu-"][role="menu"]')).toHaveCount(0);
+    });
+  });
+
   test.describe('Accessibility Basics', () => {
     test('should have main heading', async ({ page }) => {
       const heading = page.locator('header h1');
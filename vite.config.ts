@@ -1,7 +1,7 @@
 import { defineConfig, Plugin } from 'vite';
 import basicSsl from '@vitejs/plugin-basic-ssl';
 import { execSync } from 'child_process';
-import { watch, readFileSync } from 'fs';
+import { watch } from 'fs';
 import { resolve } from 'path';
 
 const getGitInfo = () => {
@@ -162,6 +162,14 @@ export default defineConfig(({ mode }) => {
         fileName: () => 'ychart-editor.js',
         formats: ['iife']
       },
+      rollupOptions: {
+        output: {
+          exports: 'named',
+          // Keep the global usable as a constructor while exposing named exports
+          // (e.g. YChartEditor.OrgDocument) as static properties
+          footer: 'if (YChartEditor && YChartEditor.default) { YChartEditor = Object.assign(YChartEditor.default, YChartEditor); }'
+        }
+      },
       minify: false,
       target: 'es2015'
     }
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// DOM-free build of the data model (OrgDocument, YamlPatch, CSV) as ESM and
+// CommonJS for Node and bundlers. Runs after the main build, so it must not
+// empty dist/ or copy public/ into it. Dependencies stay external and are
+// resolved from node_modules.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    lib: {
+      entry: 'src/document.ts',
+      fileName: (format) => format === 'es' ? 'ychart-document.js' : 'ychart-document.cjs',
+      formats: ['es', 'cjs']
+    },
+    rollupOptions: {
+      external: ['js-yaml', 'yaml']
+    },
+    minify: false,
+    target: 'es2017'
+  }
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the modules that run without the editor UI. The Playwright
+// end-to-end specs in tests/ run separately (pnpm exec playwright test).
+export default defineConfig({
+  test: {
+    include: ['tests/unit/**/*.test.ts'],
+    environment: 'node',
+  },
+});